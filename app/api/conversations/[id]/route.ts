@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import {
+  deleteConversation,
+  getConversation,
+  isValidConversationId,
+  saveConversation,
+} from "@/lib/conversationStore";
+import {
+  getConversationOwner,
+  withOwnerCookie,
+} from "@/lib/conversationOwner";
+import type { Conversation } from "@/types/conversation";
+
+// The conversation store needs the filesystem
+export const runtime = "nodejs";
+
+type Params = { params: { id: string } };
+
+const errorResponse = (error: string, status: number) =>
+  new Response(JSON.stringify({ error }), { status });
+
+// Returns an error response when the request can't reach the store
+const checkRequest = (id: string) => {
+  if (process.env.NEXT_PUBLIC_CONVERSATION_SYNC !== "true") {
+    return errorResponse("Conversation sync is disabled", 404);
+  }
+  if (!isValidConversationId(id)) {
+    return errorResponse("Invalid conversation id", 400);
+  }
+  return null;
+};
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const rejected = checkRequest(params.id);
+  if (rejected) return rejected;
+
+  const owner = getConversationOwner(req);
+  try {
+    const conversation = await getConversation(owner.id, params.id);
+    if (!conversation) {
+      return withOwnerCookie(
+        errorResponse("Conversation not found", 404),
+        owner,
+      );
+    }
+    return withOwnerCookie(
+      new Response(JSON.stringify(conversation), {
+        headers: { "Content-Type": "application/json" },
+      }),
+      owner,
+    );
+  } catch (error) {
+    console.error("❌ Conversation read error: ", error);
+    return errorResponse("Failed to read conversation", 500);
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  const rejected = checkRequest(params.id);
+  if (rejected) return rejected;
+
+  const owner = getConversationOwner(req);
+  try {
+    const conversation: Conversation = await req.json();
+    if (!Array.isArray(conversation.messages)) {
+      return errorResponse("Messages array is required", 400);
+    }
+
+    await saveConversation(owner.id, { ...conversation, id: params.id });
+    return withOwnerCookie(new Response(null, { status: 204 }), owner);
+  } catch (error) {
+    console.error("❌ Conversation save error: ", error);
+    return errorResponse("Failed to save conversation", 500);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const rejected = checkRequest(params.id);
+  if (rejected) return rejected;
+
+  const owner = getConversationOwner(req);
+  try {
+    await deleteConversation(owner.id, params.id);
+    return withOwnerCookie(new Response(null, { status: 204 }), owner);
+  } catch (error) {
+    console.error("❌ Conversation delete error: ", error);
+    return errorResponse("Failed to delete conversation", 500);
+  }
+}
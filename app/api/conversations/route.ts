@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { listConversations } from "@/lib/conversationStore";
+import {
+  getConversationOwner,
+  withOwnerCookie,
+} from "@/lib/conversationOwner";
+
+// The conversation store needs the filesystem
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  if (process.env.NEXT_PUBLIC_CONVERSATION_SYNC !== "true") {
+    return new Response(
+      JSON.stringify({ error: "Conversation sync is disabled" }),
+      { status: 404 },
+    );
+  }
+
+  const owner = getConversationOwner(req);
+  try {
+    return withOwnerCookie(
+      new Response(JSON.stringify(await listConversations(owner.id)), {
+        headers: { "Content-Type": "application/json" },
+      }),
+      owner,
+    );
+  } catch (error) {
+    console.error("❌ Conversation list error: ", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to list conversations" }),
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { FileNotFoundError, getFile } from "@/lib/fileStore";
+
+// The file store needs the filesystem
+export const runtime = "nodejs";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const file = await getFile(params.id);
+
+    return new Response(file.data, {
+      headers: {
+        "Content-Type": file.isText
+          ? "text/plain; charset=utf-8"
+          : file.mediaType,
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof FileNotFoundError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 404,
+      });
+    }
+
+    console.error("❌ File read error: ", error);
+    return new Response(JSON.stringify({ error: "Failed to read file" }), {
+      status: 500,
+    });
+  }
+}
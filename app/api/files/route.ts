@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { IMAGE_MEDIA_TYPES, MAX_FILE_SIZE, saveFile } from "@/lib/fileStore";
+
+// The file store needs the filesystem
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    const isText = form.get("isText") === "true";
+
+    if (!(file instanceof Blob)) {
+      return new Response(JSON.stringify({ error: "A file is required" }), {
+        status: 400,
+      });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return new Response(
+        JSON.stringify({
+          error: `File exceeds the ${MAX_FILE_SIZE / 1024 / 1024} MB limit`,
+        }),
+        { status: 413 },
+      );
+    }
+
+    const mediaType = isText ? "text/plain" : file.type;
+    if (!isText && !IMAGE_MEDIA_TYPES.includes(mediaType)) {
+      return new Response(
+        JSON.stringify({
+          error:
+            "Only text files and PNG, JPEG, GIF or WebP images are supported",
+        }),
+        { status: 400 },
+      );
+    }
+
+    const upload = await saveFile(
+      {
+        fileName: (form.get("fileName") as string) || "upload",
+        mediaType,
+        isText,
+      },
+      Buffer.from(await file.arrayBuffer()),
+    );
+
+    return new Response(JSON.stringify(upload), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("❌ File upload error: ", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Upload failed",
+      }),
+      { status: 500 },
+    );
+  }
+}
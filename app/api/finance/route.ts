@@ -1,32 +1,49 @@
 import { NextRequest } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  CHART_TOOL_NAME,
+  extractChartInputsFromText,
+  InvalidChartDataError,
+  toChartData,
+} from "@/lib/chartTool";
 import type { ChartData } from "@/types/chart";
-
-// Initialize Google AI client
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
-
-export const runtime = "edge";
-
-// Helper to validate base64
-const isValidBase64 = (str: string) => {
-  try {
-    return btoa(atob(str)) === str;
-  } catch (err) {
-    return false;
-  }
+import type { FinanceStreamEvent } from "@/types/stream";
+import { DEFAULT_MODEL } from "@/lib/models";
+import { FileNotFoundError, getFile, type StoredFile } from "@/lib/fileStore";
+import {
+  getProvider,
+  getProviderErrorStatus,
+  toChatMessages,
+  UnsupportedModelError,
+  type GenerateRequest,
+  type LLMProvider,
+  type ProviderEvent,
+  type ToolDefinition,
+} from "@/lib/providers";
+
+// Attachments are resolved from the file store, which needs the filesystem
+export const runtime = "nodejs";
+
+const valueFormatSchema = {
+  type: "object",
+  description:
+    "How values are displayed on axes, tooltips and labels. Percent values are given as percentages, e.g. 12.5 for 12.5%.",
+  properties: {
+    style: { type: "string", enum: ["number", "currency", "percent"] },
+    currency: { type: "string", description: "ISO 4217 code, e.g. USD" },
+    compact: {
+      type: "boolean",
+      description: "Abbreviate large values as K, M and B",
+    },
+    decimals: { type: "number" },
+    locale: { type: "string", description: "BCP 47 tag, e.g. en-US" },
+  },
 };
 
-// Add Type Definitions
-interface ChartToolResponse extends ChartData {
-  // Any additional properties specific to the tool response
-}
-
-
-const tools = [
+const tools: ToolDefinition[] = [
   {
-    name: "generate_graph_data",
+    name: CHART_TOOL_NAME,
     description:
-      "Generate structured JSON data for creating financial charts and graphs.",
+      "Generate structured JSON data for creating financial charts and graphs. Call it once per chart; call it several times when the answer needs several charts.",
       parameters: {
       type: "object",
       properties: {
@@ -39,6 +56,16 @@ const tools = [
             "pie",
             "area",
             "stackedArea",
+            "waterfall",
+            "ohlc",
+            "composed",
+            "scatter",
+            "bubble",
+            "treemap",
+            "sunburst",
+            "funnel",
+            "kpi",
+            "heatmap",
           ],
           description: "The type of chart to generate",
         },
@@ -60,12 +87,105 @@ const tools = [
             },
             footer: { type: "string" },
             totalLabel: { type: "string" },
+            format: valueFormatSchema,
+            annotations: {
+              type: "array",
+              description:
+                "Cartesian charts: reference lines, shaded ranges and labelled points or periods",
+              items: {
+                type: "object",
+                properties: {
+                  type: {
+                    type: "string",
+                    enum: ["line", "range", "label"],
+                    description:
+                      "line: horizontal line at y; range: shade y1-y2 and/or x1-x2; label: mark the period x, or the point x, y",
+                  },
+                  label: { type: "string" },
+                  x: {
+                    type: "string",
+                    description: "A value of the x-axis key",
+                  },
+                  y: { type: "number" },
+                  x1: { type: "string" },
+                  x2: { type: "string" },
+                  y1: { type: "number" },
+                  y2: { type: "number" },
+                  axis: {
+                    type: "string",
+                    enum: ["left", "right"],
+                    description: "Composed charts: the Y axis of y values",
+                  },
+                },
+                required: ["type"],
+              },
+            },
             xAxisKey: { type: "string" },
+            yAxisKey: {
+              type: "string",
+              description: "Scatter and bubble charts: numeric Y column",
+            },
+            sizeKey: {
+              type: "string",
+              description: "Bubble charts: numeric column for bubble size",
+            },
+            categoryKey: {
+              type: "string",
+              description:
+                "Scatter and bubble charts: column to group points by",
+            },
+            trendLine: {
+              type: "boolean",
+              description:
+                "Scatter and bubble charts: draw a least-squares trend line",
+            },
+            rowKey: {
+              type: "string",
+              description: "Heatmaps: column whose values become the rows",
+            },
+            columnKey: {
+              type: "string",
+              description: "Heatmaps: column whose values become the columns",
+            },
+            valueKey: {
+              type: "string",
+              description: "Heatmaps: numeric column that colours each cell",
+            },
+            colorScale: {
+              type: "string",
+              enum: ["sequential", "diverging"],
+              description:
+                "Heatmaps: diverging centres the colours on zero for variances",
+            },
+            axes: {
+              type: "object",
+              description: "Composed charts: label and unit of each Y axis",
+              properties: {
+                left: {
+                  type: "object",
+                  properties: {
+                    label: { type: "string" },
+                    unit: { type: "string" },
+                    format: valueFormatSchema,
+                  },
+                },
+                right: {
+                  type: "object",
+                  properties: {
+                    label: { type: "string" },
+                    unit: { type: "string" },
+                    format: valueFormatSchema,
+                  },
+                },
+              },
+            },
           },
           required: ["title", "description"],
         },
         data: {
           type: "array",
+          description:
+            "One object per category. Waterfall rows hold a signed change; set isSubtotal: true on rows that show the running total. Ohlc rows need open, high, low, close and optionally volume. Treemap and sunburst data is a tree of { name, value, children } nodes. Kpi rows are metrics: { label, value, unit, previousValue, comparisonLabel, trend, sparkline }.",
           items: {
             type: "object",
             additionalProperties: true,
@@ -78,6 +198,16 @@ const tools = [
             properties: {
               label: { type: "string" },
               stacked: { type: "boolean" },
+              type: {
+                type: "string",
+                enum: ["bar", "line", "area"],
+                description: "Composed charts: how the series is drawn",
+              },
+              axis: {
+                type: "string",
+                enum: ["left", "right"],
+                description: "Composed charts: which Y axis the series uses",
+              },
             },
             required: ["label"],
           },
@@ -88,7 +218,7 @@ const tools = [
   },
 ];
 
-const SYSTEM_PROMPT = `You are a financial data visualization expert. Your role is to analyze financial data and create clear, meaningful visualizations using generate_graph_data tool:
+const DEFAULT_SYSTEM_PROMPT = `You are a financial data visualization expert. Your role is to analyze financial data and create clear, meaningful visualizations using generate_graph_data tool:
 
 Here are the chart types available and their ideal use cases:
 
@@ -122,12 +252,62 @@ Here are the chart types available and their ideal use cases:
    - Market share breakdown
    - Portfolio allocation
 
+7. WATERFALL CHARTS ("waterfall")
+   - Revenue-to-profit and budget-to-actual bridges
+   - Period-over-period variance walks
+   - One value column: the starting amount, then signed changes (costs are negative)
+   - Add rows with isSubtotal: true for subtotals and the final total; their value may be omitted
+
+8. CANDLESTICK CHARTS ("ohlc")
+   - Share, commodity or FX price history
+   - Uploaded open/high/low/close/volume data
+   - Every row needs "open", "high", "low" and "close"; add "volume" to show a volume panel
+
+9. COMBO CHARTS ("composed")
+   - Metrics with different scales on one chart, e.g. revenue against margin %
+   - Set "type" (bar, line or area) and "axis" (left or right) on each chartConfig entry
+   - Label both axes in config.axes, e.g. { "left": { "label": "Revenue" }, "right": { "label": "Margin", "format": { "style": "percent" } } }
+
+10. SCATTER AND BUBBLE CHARTS ("scatter", "bubble")
+   - Correlations, e.g. marketing spend against revenue by region
+   - One row per point; set config.xAxisKey and config.yAxisKey to numeric columns
+   - Bubble charts also set config.sizeKey; use config.categoryKey to group and name points
+   - Set config.trendLine to true when the question is about a relationship
+
+11. TREEMAP AND SUNBURST CHARTS ("treemap", "sunburst")
+   - Hierarchies such as department → cost centre → account
+   - Budget or spend breakdowns with more than one level
+   - Data is a list of { "name", "value" } nodes; parents list their nodes in "children" and are sized by their sum
+   - Prefer a treemap for many leaves and a sunburst for two or three shallow levels
+
+12. FUNNEL CHARTS ("funnel")
+   - Sales pipeline stages, e.g. lead → qualified → proposal → won
+   - Conversion through any sequential process
+   - One row per stage in process order with a single count or amount column; conversion rates are calculated for you
+
+13. KPI SCORECARDS ("kpi")
+   - A few headline numbers, e.g. revenue, EBITDA and DSO for the quarter
+   - One row per metric with "label", "value" and "unit"
+   - Add "previousValue" and "comparisonLabel" (e.g. "vs Q1 2024") for the period comparison; the trend is derived from them unless you set "trend"
+   - Add "sparkline" as an array of recent values when a history is available
+
+14. HEATMAPS ("heatmap")
+   - Period × category matrices, e.g. month-by-account variances
+   - Activity patterns, e.g. weekday by hour
+   - One row per cell; set config.rowKey, config.columnKey and config.valueKey
+   - Set config.colorScale to "diverging" when values can be negative, such as variances
+
 When generating visualizations:
 1. Structure data correctly based on the chart type
+   - When a question needs several views (e.g. a trend and a breakdown), call generate_graph_data once per chart, in the order they should be read
 2. Use descriptive titles and clear descriptions
 3. Include trend information when relevant (percentage and direction)
 4. Add contextual footer notes
 5. Use proper data keys that reflect the actual metrics
+6. Set config.format for every chart: a currency code for amounts, percent for rates and margins, compact for large figures, and the locale of the data when it is not US English
+   - Keep values as plain numbers in data; the format is applied when the chart is displayed
+7. Add config.annotations for budget targets, covenant thresholds and events mentioned in the data or the question
+   - "line" at a target or threshold value, "range" for a target band or a period, "label" for an event such as a price increase
 
 Always:
 - Generate real, contextually appropriate data
@@ -139,19 +319,80 @@ Always:
 Never:
 - Use placeholder or static data
 - Include technical implementation details in responses
+- Write the chart JSON in your reply instead of calling the generate_graph_data tool
 
 Focus on clear financial insights and let the visualization enhance understanding.`;
 
+// Deployments can replace the prompt or append their own context to it
+const getSystemPrompt = () => {
+  const base = process.env.FINANCE_SYSTEM_PROMPT || DEFAULT_SYSTEM_PROMPT;
+  const extra = process.env.FINANCE_SYSTEM_PROMPT_APPEND;
+  return extra ? `${base}\n\n${extra}` : base;
+};
+
+// Drains one model turn, starting from an already awaited first event
+async function collectTurn(
+  events: AsyncGenerator<ProviderEvent>,
+  first: IteratorResult<ProviderEvent>,
+  onEvent: (event: ProviderEvent) => void,
+) {
+  let text = "";
+  const chartInputs: Record<string, any>[] = [];
+
+  for (let next = first; !next.done; next = await events.next()) {
+    const event = next.value;
+    onEvent(event);
+
+    if (event.type === "text") {
+      text += event.text;
+    } else if (event.call.name === CHART_TOOL_NAME) {
+      chartInputs.push(event.call.input);
+    }
+  }
+
+  // Only parse the text when the model didn't call the tool natively
+  if (chartInputs.length === 0) {
+    chartInputs.push(...extractChartInputsFromText(text));
+  }
+
+  return { text, chartInputs };
+}
+
+interface ChartResult {
+  input: Record<string, any>;
+  chartData?: ChartData;
+  issues?: string[];
+}
+
+const validateChartInput = (input: Record<string, any>): ChartResult => {
+  try {
+    return { input, chartData: toChartData(input) };
+  } catch (error) {
+    if (!(error instanceof InvalidChartDataError)) throw error;
+    return { input, issues: error.issues };
+  }
+};
+
+// Shows the model its chart inputs and what was wrong with them
+const getRepairPrompt = (invalid: ChartResult[]) => {
+  const charts = invalid
+    .map(
+      (result, i) =>
+        `Chart ${i + 1}:\n${JSON.stringify(result.input)}\nIssues:\n- ${result.issues!.join("\n- ")}`,
+    )
+    .join("\n\n");
+  return `These ${CHART_TOOL_NAME} inputs are invalid:\n\n${charts}\n\nCall ${CHART_TOOL_NAME} again once per chart, in the same order, with corrected input. Do not repeat your analysis.`;
+};
+
 export async function POST(req: NextRequest) {
   try {
-    const { messages, fileData, model2 } = await req.json();
+    const { messages, model = DEFAULT_MODEL } = await req.json();
 
     console.log("🔍 Initial Request Data:", {
       hasMessages: !!messages,
       messageCount: messages?.length,
-      hasFileData: !!fileData,
-      fileType: fileData?.mediaType,
-      model:model2,
+      fileCount: messages?.filter((m: any) => m.fileId).length,
+      model,
     });
 
     // Input validation
@@ -162,161 +403,166 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Format messages for Gemini
-    let formattedMessages = messages.map((msg: any) => ({
-      role: msg.role === "user" ? "user" : "model",
-      parts: [{ text: msg.content }],
-    }));
-
-    // Handle file in the latest message
-    if (fileData) {
-      const { base64, mediaType, isText } = fileData;
-
-      if (!base64) {
-        console.error("❌ No base64 data received");
-        return new Response(JSON.stringify({ error: "No file data" }), {
+    let provider: LLMProvider;
+    try {
+      provider = getProvider(model);
+    } catch (error) {
+      if (error instanceof UnsupportedModelError) {
+        return new Response(JSON.stringify({ error: error.message }), {
           status: 400,
         });
       }
+      throw error;
+    }
 
-      try {
-        if (isText) {
-          // Decode base64 text content
-          const textContent = decodeURIComponent(escape(atob(base64)));
-          
-          // Update the last message with file content
-          formattedMessages[formattedMessages.length - 1] = {
-            role: "user",
-            parts: [{
-              text: `File contents of ${fileData.fileName}:\n\n${textContent}\n\n${messages[messages.length - 1].content}`
-            }],
-          };
-        } else if (mediaType.startsWith("image/")) {
-          // Handle image files - Gemini requires different image handling
-          //const model = genAI.getGenerativeModel({ model: "gemini-pro-vision" });
-          // Convert base64 to Uint8Array for Gemini
-          //const imageData = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
-          
-          formattedMessages[formattedMessages.length - 1] = {
-            role: "user",
-            parts: [
-              {
-                inlineData: {
-                  data: base64,
-                  mimeType: mediaType
-                }
-              },
-              {
-                text: messages[messages.length - 1].content
-              }
-            ],
-          };
+    // Resolve attachment ids to their stored content
+    const files: Record<string, StoredFile> = {};
+    try {
+      for (const { fileId } of messages) {
+        if (fileId && !files[fileId]) {
+          files[fileId] = await getFile(fileId);
         }
-      } catch (error) {
-        console.error("Error processing file content:", error);
-        return new Response(
-          JSON.stringify({ error: "Failed to process file content" }),
-          { status: 400 },
-        );
       }
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+        });
+      }
+      throw error;
     }
 
-    // Initialize the chat
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-1.5-pro",
-      tools: { functionDeclarations: tools },
-     });
-    const chat = model.startChat({
-      history: formattedMessages.slice(0, -1),
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 4096,
+    const chatMessages = toChatMessages(messages, files);
+
+    // Stop the model when the client disconnects or cancels the stream
+    const abortController = new AbortController();
+    req.signal.addEventListener("abort", () => abortController.abort());
+
+    const request: GenerateRequest = {
+      model,
+      system: getSystemPrompt(),
+      messages: chatMessages,
+      tools,
+      temperature: 0.7,
+      maxTokens: 4096,
+      signal: abortController.signal,
+    };
+    const events = provider.stream(request);
+
+    // Wait for the first event so provider errors still map to HTTP statuses
+    const first = await events.next();
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: FinanceStreamEvent) => {
+          if (!abortController.signal.aborted) {
+            controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+          }
+        };
+        const sendToolCall = (event: ProviderEvent) =>
+          event.type === "tool_call" &&
+          send({
+            type: "tool_call",
+            name: event.call.name,
+            input: event.call.input,
+          });
+
+        try {
+          const turn = await collectTurn(events, first, (event) =>
+            event.type === "text"
+              ? send({ type: "text", delta: event.text })
+              : sendToolCall(event),
+          );
+
+          const results = turn.chartInputs.map(validateChartInput);
+          const invalid = results.filter((result) => !result.chartData);
+
+          if (invalid.length > 0) {
+            console.warn(
+              "⚠️ Invalid charts, asking for a repair:",
+              invalid.map((result) => result.issues),
+            );
+
+            // One retry; if it fails, the valid charts are still sent below
+            try {
+              const repairEvents = provider.stream({
+                ...request,
+                messages: [
+                  ...chatMessages,
+                  {
+                    role: "assistant",
+                    content: [
+                      { type: "text", text: turn.text || "(chart only)" },
+                    ],
+                  },
+                  {
+                    role: "user",
+                    content: [{ type: "text", text: getRepairPrompt(invalid) }],
+                  },
+                ],
+              });
+              const repair = await collectTurn(
+                repairEvents,
+                await repairEvents.next(),
+                sendToolCall,
+              );
+
+              invalid.forEach((result, i) => {
+                const repaired = validateChartInput(
+                  repair.chartInputs[i] ?? {},
+                );
+                result.chartData = repaired.chartData;
+                result.issues = repaired.issues;
+              });
+            } catch (error) {
+              if (abortController.signal.aborted) throw error;
+              console.error("❌ Chart repair request failed:", error);
+            }
+          }
+
+          // Charts keep the order in which the model generated them
+          for (const result of results) {
+            if (result.chartData) {
+              send({ type: "chart", chartData: result.chartData });
+            } else {
+              console.error("❌ Chart repair failed:", result.issues);
+              send({
+                type: "chart_error",
+                error: "A generated chart could not be displayed",
+                issues: result.issues ?? [],
+              });
+            }
+          }
+
+          send({ type: "done" });
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            console.log("⏹️ Finance stream cancelled by the client");
+            return;
+          }
+          console.error("❌ Finance stream error: ", error);
+          send({
+            type: "error",
+            error: error instanceof Error ? error.message : "Stream failed",
+          });
+        } finally {
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
       },
     });
 
-    // Add system prompt to the context
-    await chat.sendMessage(SYSTEM_PROMPT);
-
-    // Send the last message and get response
-    const result = await chat.sendMessage(formattedMessages[formattedMessages.length - 1].parts[0].text);
-    const response = await result.response;
-    const responseText = response.text();
-
-    // Parse the response to extract tool usage and chart data
-    const toolUseMatch = responseText.match(/```json\n([\s\S]*?)\n```/);
-    let toolUseContent = null;
-    let chartData = null;
-
-    if (toolUseMatch) {
-      try {
-        toolUseContent = JSON.parse(toolUseMatch[1]);
-        chartData = processToolResponse(toolUseContent);
-      } catch (e) {
-        console.error("Failed to parse tool use content:", e);
-      }
-    }
-
-    // Process tool response function
-    function processToolResponse(toolUseContent: any): ChartToolResponse | null {
-      if (!toolUseContent) return null;
-
-      const chartData = toolUseContent as ChartToolResponse;
-
-      if (
-        !chartData.chart_type ||
-        !chartData.data ||
-        !Array.isArray(chartData.data)
-      ) {
-        throw new Error("Invalid chart data structure");
-      }
-
-      // Transform data for pie charts
-      if (chartData.chart_type === "pie") {
-        chartData.data = chartData.data.map((item) => {
-          const valueKey = Object.keys(chartData.chartConfig)[0];
-          const segmentKey = chartData.config.xAxisKey || "segment";
-
-          return {
-            segment: item[segmentKey] || item.segment || item.category || item.name,
-            value: item[valueKey] || item.value,
-          };
-        });
-
-        chartData.config.xAxisKey = "segment";
-      }
-
-      // Create chartConfig with system color variables
-      const processedChartConfig = Object.entries(chartData.chartConfig).reduce(
-        (acc, [key, config], index) => ({
-          ...acc,
-          [key]: {
-            ...config,
-            color: `hsl(var(--chart-${index + 1}))`,
-          },
-        }),
-        {},
-      );
-
-      return {
-        ...chartData,
-        chartConfig: processedChartConfig,
-      };
-    }
-
-    return new Response(
-      JSON.stringify({
-        content: responseText,
-        hasToolUse: !!toolUseContent,
-        toolUse: toolUseContent,
-        chartData: chartData,
-      }),
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Cache-Control": "no-cache",
-        },
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
       },
-    );
+    });
   } catch (error) {
     console.error("❌ Finance API Error: ", error);
     console.error("Full error details:", {
@@ -327,8 +573,9 @@ export async function POST(req: NextRequest) {
 
     // Error handling for different scenarios
     if (error instanceof Error) {
-      // Handle specific Google AI API errors
-      if (error.message.includes("PERMISSION_DENIED")) {
+      // Handle provider authentication errors
+      const status = getProviderErrorStatus(error);
+      if (status === 401 || status === 403) {
         return new Response(
           JSON.stringify({
             error: "Authentication Error",
@@ -1,7 +1,13 @@
 // app/finance/page.tsx
 "use client";
 
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -22,9 +28,17 @@ import {
   FileInput,
   MessageCircleQuestion,
   ChartColumnBig,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RefreshCw,
+  RotateCcw,
+  Square,
 } from "lucide-react";
 import FilePreview from "@/components/FilePreview";
+import MarkdownContent from "@/components/MarkdownContent";
 import { ChartRenderer } from "@/components/ChartRenderer";
+import ChartEditor from "@/components/ChartEditor";
 import { toast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -35,60 +49,56 @@ import {
 } from "@/components/ui/dropdown-menu";
 import type { ChartData } from "@/types/chart";
 import TopNavBar from "@/components/TopNavBar";
+import { models, DEFAULT_MODEL } from "@/lib/models";
+import { describeChart, stripChartInputsFromText } from "@/lib/chartTool";
 import {
   readFileAsText,
-  readFileAsBase64,
   readFileAsPDFText,
+  uploadFile,
+  type FileUpload,
 } from "@/utils/fileHandling";
+import { readFinanceStream } from "@/utils/streamHandling";
+import {
+  deleteConversation,
+  getConversation,
+  getConversationTitle,
+  listConversations,
+  saveConversation,
+} from "@/utils/conversationStorage";
+import ThreadSidebar from "@/components/ThreadSidebar";
+import type { ConversationSummary, Message } from "@/types/conversation";
+import {
+  getActivePath,
+  getSiblings,
+  linkLinearMessages,
+  parentKey,
+  type BranchSelection,
+} from "@/utils/messageTree";
+import {
+  addChartVersion,
+  getChartVersions,
+  selectChartVersion,
+} from "@/utils/chartVersions";
 
 // Types
-interface Message {
-  id: string;
-  role: string;
-  content: string;
-  hasToolUse?: boolean;
-  file?: {
-    base64: string;
-    fileName: string;
-    mediaType: string;
-    isText?: boolean;
-  };
-  chartData?: ChartData;
-}
-
-type Model = {
-  id: string;
-  name: string;
-};
-
-interface FileUpload {
-  base64: string;
-  fileName: string;
-  mediaType: string;
-  isText?: boolean;
-  fileSize?: number;
-}
-
-const models: Model[] = [
-  { id: "claude-3-haiku-20240307", name: "Claude 3 Haiku" },
-  { id: "claude-3-5-sonnet-20240620", name: "Claude 3.5 Sonnet" },
-];
-
-// Updated APIResponse interface
-interface APIResponse {
-  content: string;
-  hasToolUse: boolean;
-  toolUse?: {
-    type: "tool_use";
-    id: string;
-    name: string;
-    input: ChartData;
-  };
-  chartData?: ChartData;
+// A chart in the right-hand pane, linked back to the message that produced it
+interface ChartEntry {
+  messageId: string;
+  index: number;
+  chart: ChartData;
+  version: number;
+  versionCount: number;
 }
 
 interface MessageComponentProps {
   message: Message;
+  siblingIndex?: number;
+  siblingCount?: number;
+  onSelectSibling?: (offset: number) => void;
+  onEdit?: (content: string) => void;
+  onShowCharts?: () => void;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
 }
 
 const SafeChartRenderer: React.FC<{ data: ChartData }> = ({ data }) => {
@@ -110,8 +120,22 @@ const SafeChartRenderer: React.FC<{ data: ChartData }> = ({ data }) => {
   }
 };
 
-const MessageComponent: React.FC<MessageComponentProps> = ({ message }) => {
-  console.log("Message with chart data:", message); // Add this line for debugging
+const MessageComponent: React.FC<MessageComponentProps> = ({
+  message,
+  siblingIndex = 0,
+  siblingCount = 1,
+  onSelectSibling,
+  onEdit,
+  onShowCharts,
+  onRetry,
+  onRegenerate,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const chartCount = message.charts?.length ?? 0;
+  const chartLabel =
+    chartCount > 1 ? `Generated ${chartCount} Charts` : "Generated Chart";
+
   return (
     <div className="flex items-start gap-2">
       {message.role === "assistant" && (
@@ -132,13 +156,42 @@ const MessageComponent: React.FC<MessageComponentProps> = ({ message }) => {
               : "bg-muted border"
           }`}
         >
-          {message.content === "thinking" ? (
+          {isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="bg-background text-foreground"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsEditing(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={!draft.trim()}
+                  onClick={() => {
+                    setIsEditing(false);
+                    onEdit?.(draft);
+                  }}
+                >
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : message.content === "thinking" ? (
             <div className="flex items-center">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900 mr-2" />
               {message.hasToolUse ? (
                 <div className="flex flex-col gap-2">
                   <Badge variant="secondary" className="inline-flex">
-                    <ChartLine className="w-4 h-4 mr-1" /> Generated Chart
+                    <ChartLine className="w-4 h-4 mr-1" /> {chartLabel}
                   </Badge>
                   <span>Thinking...</span>
                 </div>
@@ -149,11 +202,24 @@ const MessageComponent: React.FC<MessageComponentProps> = ({ message }) => {
           ) : message.role === "assistant" ? (
             <div className="flex flex-col gap-2">
               {message.hasToolUse && (
-                <Badge variant="secondary" className="inline-flex px-0">
-                  <ChartLine className="w-4 h-4 mr-1" /> Generated Chart
+                <Badge
+                  variant="secondary"
+                  className={`inline-flex px-0 ${
+                    chartCount > 0 ? "cursor-pointer hover:underline" : ""
+                  }`}
+                  onClick={chartCount > 0 ? onShowCharts : undefined}
+                >
+                  <ChartLine className="w-4 h-4 mr-1" /> {chartLabel}
                 </Badge>
               )}
-              <span>{message.content}</span>
+              <MarkdownContent
+                content={stripChartInputsFromText(message.content)}
+              />
+              {message.status === "stopped" && (
+                <span className="text-xs italic text-muted-foreground">
+                  Stopped
+                </span>
+              )}
             </div>
           ) : (
             <span>{message.content}</span>
@@ -164,6 +230,76 @@ const MessageComponent: React.FC<MessageComponentProps> = ({ message }) => {
             <FilePreview file={message.file} size="small" />
           </div>
         )}
+        {(siblingCount > 1 || onEdit || onRetry || onRegenerate) && (
+          <div
+            className={`mt-1 flex items-center gap-1 text-xs text-muted-foreground ${
+              message.role === "user" ? "justify-end" : ""
+            }`}
+          >
+            {siblingCount > 1 && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={siblingIndex === 0 || !onSelectSibling}
+                  onClick={() => onSelectSibling?.(-1)}
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                  <span className="sr-only">Previous branch</span>
+                </Button>
+                <span>
+                  {siblingIndex + 1}/{siblingCount}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={
+                    siblingIndex === siblingCount - 1 || !onSelectSibling
+                  }
+                  onClick={() => onSelectSibling?.(1)}
+                >
+                  <ChevronRight className="w-3 h-3" />
+                  <span className="sr-only">Next branch</span>
+                </Button>
+              </>
+            )}
+            {onEdit && !isEditing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+              >
+                <Pencil className="w-3 h-3 mr-1" /> Edit
+              </Button>
+            )}
+            {message.status && onRetry && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={onRetry}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" /> Retry
+              </Button>
+            )}
+            {!message.status && onRegenerate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={onRegenerate}
+              >
+                <RefreshCw className="w-3 h-3 mr-1" /> Regenerate
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -194,20 +330,128 @@ const ChartPagination = ({
 );
 
 export default function AIChat() {
+  // All messages of all branches; the visible thread is `activeMessages`
   const [messages, setMessages] = useState<Message[]>([]);
+  const [branches, setBranches] = useState<BranchSelection>({});
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedModel, setSelectedModel] = useState(
-    "claude-3-5-sonnet-20240620",
-  );
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chartEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [currentUpload, setCurrentUpload] = useState<FileUpload | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [currentChartIndex, setCurrentChartIndex] = useState(0);
+  const [editingChart, setEditingChart] = useState<{
+    messageId: string;
+    index: number;
+  } | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const [isScrollLocked, setIsScrollLocked] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ConversationSummary[]>([]);
+  const createdAtRef = useRef<number>(Date.now());
+  // Set when a turn changes the thread, so reopening one doesn't re-save it
+  const pendingSaveRef = useRef(false);
+
+  const activeMessages = useMemo(
+    () => getActivePath(messages, branches),
+    [messages, branches],
+  );
+
+  useEffect(() => {
+    listConversations()
+      .then(setThreads)
+      .catch((error) => console.error("Failed to load threads:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!pendingSaveRef.current || isLoading || !conversationId) return;
+    pendingSaveRef.current = false;
+
+    const conversation = {
+      id: conversationId,
+      title: getConversationTitle(activeMessages),
+      createdAt: createdAtRef.current,
+      updatedAt: Date.now(),
+      model: selectedModel,
+      messages,
+      branches,
+    };
+
+    saveConversation(conversation)
+      .then(() =>
+        setThreads((prev) => [
+          {
+            id: conversation.id,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+            updatedAt: conversation.updatedAt,
+          },
+          ...prev.filter((t) => t.id !== conversation.id),
+        ]),
+      )
+      .catch((error) => {
+        console.error("Failed to save conversation:", error);
+        toast({
+          title: "Conversation not saved",
+          description: "It will be lost when you leave the page",
+          variant: "destructive",
+        });
+      });
+  }, [
+    messages,
+    branches,
+    activeMessages,
+    isLoading,
+    conversationId,
+    selectedModel,
+  ]);
+
+  const startNewThread = () => {
+    setMessages([]);
+    setBranches({});
+    setConversationId(null);
+    setCurrentUpload(null);
+    setCurrentChartIndex(0);
+  };
+
+  const openThread = async (id: string) => {
+    try {
+      const conversation = await getConversation(id);
+      if (!conversation) {
+        throw new Error(`Conversation ${id} not found`);
+      }
+
+      pendingSaveRef.current = false;
+      createdAtRef.current = conversation.createdAt;
+      setConversationId(conversation.id);
+      setSelectedModel(conversation.model || DEFAULT_MODEL);
+      setMessages(linkLinearMessages(conversation.messages));
+      setBranches(conversation.branches ?? {});
+      setCurrentUpload(null);
+      setCurrentChartIndex(0);
+    } catch (error) {
+      console.error("Failed to open thread:", error);
+      toast({
+        title: "Could not open thread",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeThread = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      setThreads((prev) => prev.filter((t) => t.id !== id));
+      if (id === conversationId) {
+        startNewThread();
+      }
+    } catch (error) {
+      console.error("Failed to delete thread:", error);
+    }
+  };
 
   useEffect(() => {
     const scrollToBottom = () => {
@@ -253,6 +497,23 @@ export default function AIChat() {
     setCurrentChartIndex(newIndex);
   }, []);
 
+  const chartEntries: ChartEntry[] = useMemo(
+    () =>
+      activeMessages.flatMap((message) =>
+        (message.charts ?? []).map((chart, index) => {
+          const { versions, active } = getChartVersions(message, index);
+          return {
+            messageId: message.id,
+            index,
+            chart,
+            version: active,
+            versionCount: versions.length,
+          };
+        }),
+      ),
+    [activeMessages],
+  );
+
   const scrollToChart = (index: number) => {
     if (!contentRef.current) return;
 
@@ -263,20 +524,46 @@ export default function AIChat() {
     });
   };
 
+  // Saving an edited chart replaces its entry, which should not scroll the pane
+  const newestChart = chartEntries[chartEntries.length - 1];
+  const newestChartKey = newestChart
+    ? `${newestChart.messageId}-${newestChart.index}`
+    : "";
+
   useEffect(() => {
     const scrollToNewestChart = () => {
-      const chartsCount = messages.filter((m) => m.chartData).length;
-      if (chartsCount > 0) {
-        setCurrentChartIndex(chartsCount - 1);
-        scrollToChart(chartsCount - 1);
-      }
+      setCurrentChartIndex(chartEntries.length - 1);
+      scrollToChart(chartEntries.length - 1);
     };
 
-    const lastChartIndex = messages.findLastIndex((m) => m.chartData);
-    if (lastChartIndex !== -1) {
+    if (chartEntries.length > 0) {
       setTimeout(scrollToNewestChart, 100);
     }
-  }, [messages]);
+  }, [newestChartKey, chartEntries.length]);
+
+  const updateChart = (
+    messageId: string,
+    update: (message: Message) => Message,
+  ) => {
+    pendingSaveRef.current = true;
+    setMessages((prev) =>
+      prev.map((m) => (m.id === messageId ? update(m) : m)),
+    );
+  };
+
+  const showChartsOf = (messageId: string) => {
+    const index = chartEntries.findIndex((e) => e.messageId === messageId);
+    if (index !== -1) {
+      scrollToChart(index);
+    }
+  };
+
+  const showMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({
+      behavior: "smooth",
+      block: "center",
+    });
+  };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -298,16 +585,15 @@ export default function AIChat() {
     try {
       const isImage = file.type.startsWith("image/");
       const isPDF = file.type === "application/pdf";
-      let base64Data = "";
+      let content: Blob = file;
       let isText = false;
 
       if (isImage) {
-        base64Data = await readFileAsBase64(file);
         isText = false;
       } else if (isPDF) {
         try {
           const pdfText = await readFileAsPDFText(file);
-          base64Data = btoa(encodeURIComponent(pdfText));
+          content = new Blob([pdfText], { type: "text/plain" });
           isText = true;
         } catch (error) {
           console.error("Failed to parse PDF:", error);
@@ -321,7 +607,7 @@ export default function AIChat() {
       } else {
         try {
           const textContent = await readFileAsText(file);
-          base64Data = btoa(encodeURIComponent(textContent));
+          content = new Blob([textContent], { type: "text/plain" });
           isText = true;
         } catch (error) {
           console.error("Failed to read as text:", error);
@@ -334,12 +620,8 @@ export default function AIChat() {
         }
       }
 
-      setCurrentUpload({
-        base64: base64Data,
-        fileName: file.name,
-        mediaType: isText ? "text/plain" : file.type,
-        isText,
-      });
+      // Stored server-side once; messages only carry the returned id
+      setCurrentUpload(await uploadFile(content, file.name, isText));
 
       toast({
         title: "File uploaded",
@@ -349,7 +631,8 @@ export default function AIChat() {
       console.error("Error processing file:", error);
       toast({
         title: "Upload failed",
-        description: "Failed to process the file",
+        description:
+          error instanceof Error ? error.message : "Failed to process the file",
         variant: "destructive",
       });
     } finally {
@@ -367,72 +650,42 @@ export default function AIChat() {
     }
   };
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (!input.trim() && !currentUpload) return;
-    if (isLoading) return;
-
+  // Streams an answer to `history` into the assistant message `assistantId`
+  const streamAnswer = async (
+    history: Message[],
+    assistantId: string,
+    model: string,
+  ) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    pendingSaveRef.current = true;
     setIsScrollLocked(true);
-
-    const userMessage: Message = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: input,
-      file: currentUpload || undefined,
-    };
-
-    const thinkingMessage: Message = {
-      id: crypto.randomUUID(),
-      role: "assistant",
-      content: "thinking",
-    };
-
-    // Update messages in a single state update
-    setMessages((prev) => [...prev, userMessage, thinkingMessage]);
-    setInput("");
     setIsLoading(true);
 
+    const updateAssistant = (update: (message: Message) => Message) =>
+      setMessages((prev) =>
+        prev.map((m) => (m.id === assistantId ? update(m) : m)),
+      );
+
     // Prepare all messages for the API request
-    const apiMessages = [...messages, userMessage].map((msg) => {
-      if (msg.file) {
-        if (msg.file.isText) {
-          // For text files, decode the content before sending
-          const decodedText = decodeURIComponent(atob(msg.file.base64));
-          return {
-            role: msg.role,
-            content: `File contents of ${msg.file.fileName}:\n\n${decodedText}\n\n${msg.content}`,
-          };
-        } else {
-          // Handle images as before
-          return {
-            role: msg.role,
-            content: [
-              {
-                type: "image",
-                source: {
-                  type: "base64",
-                  media_type: msg.file.mediaType,
-                  data: msg.file.base64,
-                },
-              },
-              {
-                type: "text",
-                text: msg.content,
-              },
-            ],
-          };
-        }
-      }
-      // Handle text-only messages
-      return {
+    // Attachments are referenced by id and resolved by the API route.
+    // A failed turn's apology was never written by the model, so it is left
+    // out together with the question it failed to answer
+    const apiMessages = history
+      .filter(
+        (msg, index) =>
+          msg.status !== "error" && history[index + 1]?.status !== "error",
+      )
+      .map((msg) => ({
         role: msg.role,
         content: msg.content,
-      };
-    });
+        fileId: msg.file?.id,
+        charts: msg.charts?.map(describeChart),
+      }));
 
     const requestBody = {
       messages: apiMessages,
-      model: selectedModel,
+      model,
     };
 
     try {
@@ -442,40 +695,64 @@ export default function AIChat() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const data: APIResponse = await response.json();
-
-      setMessages((prev) => {
-        const newMessages = [...prev];
-        newMessages[newMessages.length - 1] = {
-          id: crypto.randomUUID(),
-          role: "assistant",
-          content: data.content,
-          hasToolUse: data.hasToolUse || !!data.toolUse,
-          chartData:
-            data.chartData || (data.toolUse?.input as ChartData) || null,
-        };
-        return newMessages;
+      let streamedText = "";
+      await readFinanceStream(response, (event) => {
+        switch (event.type) {
+          case "text":
+            streamedText += event.delta;
+            updateAssistant((m) => ({ ...m, content: streamedText }));
+            break;
+          case "tool_call":
+            updateAssistant((m) => ({ ...m, hasToolUse: true }));
+            break;
+          case "chart":
+            updateAssistant((m) => ({
+              ...m,
+              charts: [...(m.charts ?? []), event.chartData],
+            }));
+            break;
+          case "chart_error":
+            toast({
+              title: event.error,
+              description: event.issues.join("; "),
+              variant: "destructive",
+            });
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
       });
 
-      setCurrentUpload(null);
+      // The model may answer with a chart only
+      if (!streamedText) {
+        updateAssistant((m) => ({ ...m, content: "" }));
+      }
     } catch (error) {
-      console.error("Submit Error:", error);
-      setMessages((prev) => {
-        const newMessages = [...prev];
-        newMessages[newMessages.length - 1] = {
-          id: crypto.randomUUID(),
-          role: "assistant",
+      if (abortController.signal.aborted) {
+        // Keep whatever arrived before the user pressed Stop
+        updateAssistant((m) => ({
+          ...m,
+          content: m.content === "thinking" ? "" : m.content,
+          status: "stopped",
+        }));
+      } else {
+        console.error("Submit Error:", error);
+        updateAssistant((m) => ({
+          ...m,
           content: "I apologize, but I encountered an error. Please try again.",
-        };
-        return newMessages;
-      });
+          charts: undefined,
+          status: "error",
+        }));
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setIsScrollLocked(false);
 
@@ -489,6 +766,111 @@ export default function AIChat() {
     }
   };
 
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!input.trim() && !currentUpload) return;
+    if (isLoading) return;
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: activeMessages[activeMessages.length - 1]?.id ?? null,
+      role: "user",
+      content: input,
+      file: currentUpload || undefined,
+    };
+
+    if (!conversationId) {
+      createdAtRef.current = Date.now();
+      setConversationId(crypto.randomUUID());
+    }
+
+    setInput("");
+    // The user message keeps the file, so Retry can resend it
+    setCurrentUpload(null);
+
+    await askInBranch(activeMessages, userMessage);
+  };
+
+  // Adds `userMessage` after `history`, selects it and streams the answer
+  const askInBranch = async (history: Message[], userMessage: Message) => {
+    const thinkingMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: userMessage.id,
+      role: "assistant",
+      content: "thinking",
+      model: selectedModel,
+    };
+
+    // Update messages in a single state update
+    setMessages((prev) => [...prev, userMessage, thinkingMessage]);
+    setBranches((prev) => ({
+      ...prev,
+      [parentKey(userMessage)]: userMessage.id,
+      [userMessage.id]: thinkingMessage.id,
+    }));
+
+    await streamAnswer(
+      [...history, userMessage],
+      thinkingMessage.id,
+      selectedModel,
+    );
+  };
+
+  // Editing keeps the original message and starts a sibling branch
+  const editMessage = async (messageId: string, content: string) => {
+    if (isLoading) return;
+
+    const index = activeMessages.findIndex((m) => m.id === messageId);
+    if (index === -1) return;
+
+    const original = activeMessages[index];
+    await askInBranch(activeMessages.slice(0, index), {
+      id: crypto.randomUUID(),
+      parentId: original.parentId ?? null,
+      role: "user",
+      content,
+      file: original.file,
+    });
+  };
+
+  const selectSibling = (message: Message, offset: number) => {
+    const siblings = getSiblings(messages, message);
+    const index = siblings.findIndex((m) => m.id === message.id);
+    const next = siblings[index + offset];
+    if (!next || isLoading) return;
+
+    pendingSaveRef.current = true;
+    setBranches((prev) => ({ ...prev, [parentKey(message)]: next.id }));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Replaces an assistant answer (and its charts) with a fresh one
+  const rerunAnswer = async (assistantId: string, model: string) => {
+    if (isLoading) return;
+
+    const index = activeMessages.findIndex((m) => m.id === assistantId);
+    if (index === -1) return;
+
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === assistantId
+          ? {
+              id: m.id,
+              parentId: m.parentId,
+              role: "assistant",
+              content: "thinking",
+              model,
+            }
+          : m,
+      ),
+    );
+
+    await streamAnswer(activeMessages.slice(0, index), assistantId, model);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -523,12 +905,22 @@ export default function AIChat() {
       />
 
       <div className="flex-1 flex bg-background p-4 pt-0 gap-4 h-[calc(100vh-4rem)]">
+        {/* Thread List */}
+        <ThreadSidebar
+          threads={threads}
+          activeId={conversationId}
+          onSelect={openThread}
+          onNew={startNewThread}
+          onDelete={removeThread}
+          disabled={isLoading}
+        />
+
         {/* Chat Sidebar */}
         <Card className="w-1/3 flex flex-col h-full">
           <CardHeader className="py-3 px-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
-                {messages.length > 0 && (
+                {activeMessages.length > 0 && (
                   <>
                     <Avatar className="w-8 h-8 border">
                       <AvatarImage
@@ -542,7 +934,8 @@ export default function AIChat() {
                         Financial Assistant
                       </CardTitle>
                       <CardDescription className="text-xs">
-                        Powered by Claude
+                        Powered by{" "}
+                        {models.find((m) => m.id === selectedModel)?.name}
                       </CardDescription>
                     </div>
                   </>
@@ -571,7 +964,7 @@ export default function AIChat() {
           </CardHeader>
 
           <CardContent className="flex-1 overflow-y-auto p-4 scroll-smooth snap-y snap-mandatory">
-            {messages.length === 0 ? (
+            {activeMessages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full animate-fade-in-up max-w-[95%] mx-auto">
                 <Avatar className="w-10 h-10 mb-4 border">
                   <AvatarImage
@@ -610,16 +1003,46 @@ export default function AIChat() {
               </div>
             ) : (
               <div className="space-y-4 min-h-full">
-                {messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`animate-fade-in-up ${
-                      message.content === "thinking" ? "animate-pulse" : ""
-                    }`}
-                  >
-                    <MessageComponent message={message} />
-                  </div>
-                ))}
+                {activeMessages.map((message, index) => {
+                  const siblings = getSiblings(messages, message);
+                  return (
+                    <div
+                      key={message.id}
+                      id={`message-${message.id}`}
+                      className={`animate-fade-in-up ${
+                        message.content === "thinking" ? "animate-pulse" : ""
+                      }`}
+                    >
+                      <MessageComponent
+                        message={message}
+                        siblingIndex={siblings.findIndex(
+                          (m) => m.id === message.id,
+                        )}
+                        siblingCount={siblings.length}
+                        onSelectSibling={(offset) =>
+                          selectSibling(message, offset)
+                        }
+                        onShowCharts={() => showChartsOf(message.id)}
+                        {...(message.role === "user" &&
+                          !isLoading && {
+                            onEdit: (content: string) =>
+                              editMessage(message.id, content),
+                          })}
+                        {...(message.role === "assistant" &&
+                          index === activeMessages.length - 1 &&
+                          !isLoading && {
+                            onRetry: () =>
+                              rerunAnswer(
+                                message.id,
+                                message.model ?? selectedModel,
+                              ),
+                            onRegenerate: () =>
+                              rerunAnswer(message.id, selectedModel),
+                          })}
+                      />
+                    </div>
+                  );
+                })}
                 <div ref={messagesEndRef} className="h-4" />{" "}
                 {/* Add height to ensure scroll space */}
               </div>
@@ -657,13 +1080,25 @@ export default function AIChat() {
                       rows={1}
                     />
                   </div>
-                  <Button
-                    type="submit"
-                    disabled={isLoading || (!input.trim() && !currentUpload)}
-                    className="h-[44px]"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  {isLoading ? (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleStop}
+                      className="h-[44px]"
+                    >
+                      <Square className="h-4 w-4" />
+                      <span className="sr-only">Stop</span>
+                    </Button>
+                  ) : (
+                    <Button
+                      type="submit"
+                      disabled={!input.trim() && !currentUpload}
+                      className="h-[44px]"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
               <input
@@ -678,7 +1113,7 @@ export default function AIChat() {
 
         {/* Content Area */}
         <Card className="flex-1 flex flex-col h-full overflow-hidden">
-          {messages.some((m) => m.chartData) && (
+          {chartEntries.length > 0 && (
             <CardHeader className="py-3 px-4 shrink-0">
               <CardTitle className="text-lg">
                 Analysis & Visualizations
@@ -690,25 +1125,61 @@ export default function AIChat() {
             className="flex-1 overflow-y-auto min-h-0 snap-y snap-mandatory"
             onScroll={handleChartScroll}
           >
-            {messages.some((m) => m.chartData) ? (
+            {chartEntries.length > 0 ? (
               <div className="min-h-full flex flex-col">
-                {messages.map(
-                  (message, index) =>
-                    message.chartData && (
-                      <div
-                        key={`chart-${index}`}
-                        className="w-full min-h-full flex-shrink-0 snap-start snap-always"
-                        ref={
-                          index ===
-                          messages.filter((m) => m.chartData).length - 1
-                            ? chartEndRef
-                            : null
+                {chartEntries.map((entry, index) => (
+                  <div
+                    key={`chart-${entry.messageId}-${entry.index}`}
+                    className="w-full min-h-full flex-shrink-0 snap-start snap-always relative"
+                    ref={index === chartEntries.length - 1 ? chartEndRef : null}
+                  >
+                    {editingChart?.messageId === entry.messageId &&
+                    editingChart.index === entry.index ? (
+                      <ChartEditor
+                        chart={entry.chart}
+                        versionIndex={entry.version}
+                        versionCount={entry.versionCount}
+                        onSelectVersion={(version) =>
+                          updateChart(entry.messageId, (m) =>
+                            selectChartVersion(m, entry.index, version),
+                          )
                         }
-                      >
-                        <SafeChartRenderer data={message.chartData} />
-                      </div>
-                    ),
-                )}
+                        onSave={(chart) =>
+                          updateChart(entry.messageId, (m) =>
+                            addChartVersion(m, entry.index, chart),
+                          )
+                        }
+                        onClose={() => setEditingChart(null)}
+                      />
+                    ) : (
+                      <>
+                        <div className="absolute top-2 right-6 flex gap-3 text-xs text-muted-foreground">
+                          <button
+                            onClick={() =>
+                              setEditingChart({
+                                messageId: entry.messageId,
+                                index: entry.index,
+                              })
+                            }
+                            disabled={isLoading}
+                            className="hover:underline disabled:opacity-50"
+                          >
+                            Edit chart
+                            {entry.versionCount > 1 &&
+                              ` (v${entry.version + 1})`}
+                          </button>
+                          <button
+                            onClick={() => showMessage(entry.messageId)}
+                            className="hover:underline"
+                          >
+                            Show in chat
+                          </button>
+                        </div>
+                        <SafeChartRenderer data={entry.chart} />
+                      </>
+                    )}
+                  </div>
+                ))}
               </div>
             ) : (
               <div className="h-full flex flex-col items-center justify-center text-center">
@@ -734,9 +1205,9 @@ export default function AIChat() {
           </CardContent>
         </Card>
       </div>
-      {messages.some((m) => m.chartData) && (
+      {chartEntries.length > 0 && (
         <ChartPagination
-          total={messages.filter((m) => m.chartData).length}
+          total={chartEntries.length}
           current={currentChartIndex}
           onDotClick={scrollToChart}
         />
@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatValue } from "@/lib/valueFormat";
+import type { ChartData, HierarchyNode } from "@/types/chart";
+import { flattenHierarchy } from "@/utils/chartExport";
+
+interface DataColumn {
+  key: string;
+  label: string;
+  numeric: boolean;
+  // Prices, KPI metrics and the like have no meaningful sum
+  hasTotal: boolean;
+  format: (value: number) => string;
+}
+
+type SortState = { key: string; descending: boolean } | null;
+
+const isPrimitive = (value: unknown) =>
+  value === null || value === undefined || typeof value !== "object";
+
+const toHeader = (key: string) =>
+  key
+    .replace(/_/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/^./, (c) => c.toUpperCase());
+
+const getRows = (chart: ChartData) =>
+  chart.chartType === "treemap" || chart.chartType === "sunburst"
+    ? flattenHierarchy(chart.data as HierarchyNode[])
+    : chart.data;
+
+// Pie rows keep their value under "value", whatever the series is called
+const getSeries = (chart: ChartData, key: string) =>
+  chart.chartType === "pie" && key === "value"
+    ? Object.values(chart.chartConfig)[0]
+    : chart.chartConfig[key];
+
+// Matches the value formatting of each chart's tooltip
+const getColumnFormat = (chart: ChartData, key: string) => {
+  const { format, axes, yAxisKey } = chart.config;
+  const series = getSeries(chart, key);
+
+  if (chart.chartType === "composed" && series) {
+    const axis = series.axis === "right" ? axes?.right : axes?.left;
+    const axisFormat =
+      series.axis === "right" ? axis?.format : (axis?.format ?? format);
+    return (value: number) =>
+      `${formatValue(value, axisFormat)}${axis?.unit ?? ""}`;
+  }
+  if (chart.chartType === "scatter" || chart.chartType === "bubble") {
+    return (value: number) =>
+      key === yAxisKey ? formatValue(value, format) : value.toLocaleString();
+  }
+  // Volume is a count, not a price
+  if (chart.chartType === "ohlc" && key === "volume") {
+    return (value: number) => value.toLocaleString();
+  }
+  if (series || (chart.chartType === "kpi" && key === "previousValue")) {
+    return (value: number) => formatValue(value, format);
+  }
+  return (value: number) => value.toLocaleString();
+};
+
+// Label columns first, then series in chartConfig order, then anything else
+const getColumns = (
+  chart: ChartData,
+  rows: Record<string, any>[],
+): DataColumn[] => {
+  const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))))
+    .filter((key) => key !== "isSubtotal")
+    .filter((key) => rows.every((row) => isPrimitive(row[key])));
+
+  const columns = keys.map((key) => {
+    const numeric =
+      rows.some((row) => typeof row[key] === "number") &&
+      rows.every((row) => row[key] == null || typeof row[key] === "number");
+    return {
+      key,
+      label: getSeries(chart, key)?.label ?? toHeader(key),
+      numeric,
+      hasTotal:
+        numeric &&
+        chart.chartType !== "kpi" &&
+        !(chart.chartType === "ohlc" && key !== "volume"),
+      format: getColumnFormat(chart, key),
+    };
+  });
+
+  const seriesKeys = Object.keys(chart.chartConfig);
+  const rank = (column: DataColumn) =>
+    column.key === chart.config.xAxisKey && !column.numeric
+      ? 0
+      : !column.numeric
+        ? 1
+        : seriesKeys.includes(column.key)
+          ? 2 + seriesKeys.indexOf(column.key) / seriesKeys.length
+          : 3;
+  return columns.sort((a, b) => rank(a) - rank(b));
+};
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+interface ChartDataTableProps {
+  chart: ChartData;
+}
+
+const ChartDataTable: React.FC<ChartDataTableProps> = ({ chart }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sort, setSort] = useState<SortState>(null);
+
+  const rows = useMemo(() => getRows(chart), [chart]);
+  const columns = useMemo(() => getColumns(chart, rows), [chart, rows]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const direction = sort.descending ? -1 : 1;
+    return [...rows].sort(
+      (a, b) => direction * compareValues(a[sort.key], b[sort.key]),
+    );
+  }, [rows, sort]);
+
+  // Waterfall subtotals restate the running sum, so they are left out
+  const totals = useMemo(
+    () =>
+      columns.map((column) =>
+        column.hasTotal
+          ? rows
+              .filter((row) => !row.isSubtotal)
+              .reduce((sum, row) => sum + (row[column.key] ?? 0), 0)
+          : undefined,
+      ),
+    [columns, rows],
+  );
+  const hasTotals = totals.some((total) => total !== undefined);
+
+  // Ascending, then descending, then back to the model's order
+  const toggleSort = (key: string) =>
+    setSort((prev) =>
+      prev?.key !== key
+        ? { key, descending: false }
+        : prev.descending
+          ? null
+          : { key, descending: true },
+    );
+
+  return (
+    <div className="mt-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs text-muted-foreground"
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        {isOpen ? (
+          <ChevronDown className="mr-1 h-3 w-3" />
+        ) : (
+          <ChevronRight className="mr-1 h-3 w-3" />
+        )}
+        {isOpen ? "Hide data" : "Show data"} ({rows.length}{" "}
+        {rows.length === 1 ? "row" : "rows"})
+      </Button>
+      {isOpen && (
+        <div className="mt-1 max-h-80 w-full overflow-auto rounded-xl border bg-card text-card-foreground shadow">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                {columns.map((column) => (
+                  <th
+                    key={column.key}
+                    className={`px-3 py-2 font-medium text-muted-foreground ${
+                      column.numeric ? "text-right" : "text-left"
+                    }`}
+                  >
+                    <button
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      onClick={() => toggleSort(column.key)}
+                    >
+                      {column.label}
+                      {sort?.key === column.key &&
+                        (sort.descending ? (
+                          <ArrowDown className="h-3 w-3" />
+                        ) : (
+                          <ArrowUp className="h-3 w-3" />
+                        ))}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row, index) => (
+                <tr
+                  key={index}
+                  className={row.isSubtotal ? "font-medium" : undefined}
+                >
+                  {columns.map((column) => (
+                    <td
+                      key={column.key}
+                      className={`border-t px-3 py-2 tabular-nums ${
+                        column.numeric ? "text-right" : ""
+                      }`}
+                    >
+                      {typeof row[column.key] === "number"
+                        ? column.format(row[column.key])
+                        : String(row[column.key] ?? "")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            {hasTotals && (
+              <tfoot className="sticky bottom-0 bg-muted font-medium">
+                <tr>
+                  {columns.map((column, index) => (
+                    <td
+                      key={column.key}
+                      className={`border-t px-3 py-2 tabular-nums ${
+                        column.numeric ? "text-right" : ""
+                      }`}
+                    >
+                      {totals[index] !== undefined
+                        ? column.format(totals[index])
+                        : index === 0
+                          ? "Total"
+                          : ""}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartDataTable;
@@ -0,0 +1,370 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ChartRenderer } from "@/components/ChartRenderer";
+import { getCompatibleChartTypes, parseChartData } from "@/lib/chartSchema";
+import type { ChartConfig, ChartData } from "@/types/chart";
+
+const CHART_TYPE_LABELS: Record<ChartData["chartType"], string> = {
+  bar: "Bar",
+  multiBar: "Grouped bar",
+  line: "Line",
+  pie: "Pie",
+  area: "Area",
+  stackedArea: "Stacked area",
+  waterfall: "Waterfall",
+  ohlc: "Candlestick",
+  composed: "Combo",
+  scatter: "Scatter",
+  bubble: "Bubble",
+  treemap: "Treemap",
+  sunburst: "Sunburst",
+  funnel: "Funnel",
+  kpi: "KPI scorecard",
+  heatmap: "Heatmap",
+};
+
+// Only these draw every chartConfig entry as its own series, in order
+const SERIES_TYPES: ChartData["chartType"][] = [
+  "bar",
+  "multiBar",
+  "line",
+  "area",
+  "stackedArea",
+  "composed",
+];
+
+// These derive their keys from the data shape
+const FIXED_AXIS_TYPES: ChartData["chartType"][] = [
+  "treemap",
+  "sunburst",
+  "kpi",
+  "heatmap",
+];
+
+const THEME_COLORS = [1, 2, 3, 4, 5].map((n) => `hsl(var(--chart-${n}))`);
+
+const fieldClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface SeriesDraft {
+  key: string;
+  label: string;
+  visible: boolean;
+}
+
+interface ChartDraft {
+  chartType: ChartData["chartType"];
+  title: string;
+  description: string;
+  footer: string;
+  xAxisKey: string;
+  series: SeriesDraft[];
+}
+
+const isNumericColumn = (chart: ChartData, key: string) =>
+  chart.data.every((row) => typeof row[key] === "number");
+
+// Hidden series are numeric columns that are not in chartConfig
+const toDraft = (chart: ChartData): ChartDraft => {
+  const xAxisKey = chart.config.xAxisKey ?? "";
+  const hidden = SERIES_TYPES.includes(chart.chartType)
+    ? Object.keys(chart.data[0] ?? {}).filter(
+        (key) =>
+          !(key in chart.chartConfig) &&
+          key !== xAxisKey &&
+          isNumericColumn(chart, key),
+      )
+    : [];
+
+  return {
+    chartType: chart.chartType,
+    title: chart.config.title,
+    description: chart.config.description,
+    footer: chart.config.footer ?? "",
+    xAxisKey,
+    series: [
+      ...Object.entries(chart.chartConfig).map(([key, { label }]) => ({
+        key,
+        label,
+        visible: true,
+      })),
+      ...hidden.map((key) => ({ key, label: key, visible: false })),
+    ],
+  };
+};
+
+const fromDraft = (chart: ChartData, draft: ChartDraft): ChartData => {
+  const visible = draft.series.filter((s) => s.visible);
+  const usedColors = visible.map(({ key }) => chart.chartConfig[key]?.color);
+  const freeColors = THEME_COLORS.filter((c) => !usedColors.includes(c));
+
+  const chartConfig = visible.reduce((acc, { key, label }) => {
+    const entry = chart.chartConfig[key];
+    return {
+      ...acc,
+      [key]: {
+        ...entry,
+        label: label.trim() || key,
+        color: entry?.color ?? freeColors.shift() ?? THEME_COLORS[0],
+      },
+    };
+  }, {} as ChartConfig);
+
+  // Pie rows are already { segment, value }, whatever the series was called
+  const [pieSeries] = Object.values(chartConfig);
+  const leavesPie = chart.chartType === "pie" && draft.chartType !== "pie";
+
+  return {
+    ...chart,
+    chartType: draft.chartType,
+    config: {
+      ...chart.config,
+      title: draft.title,
+      description: draft.description,
+      footer: draft.footer.trim() || undefined,
+      xAxisKey: draft.xAxisKey || undefined,
+    },
+    chartConfig: leavesPie && pieSeries ? { value: pieSeries } : chartConfig,
+  };
+};
+
+interface ChartEditorProps {
+  chart: ChartData;
+  versionIndex: number;
+  versionCount: number;
+  onSelectVersion: (index: number) => void;
+  onSave: (chart: ChartData) => void;
+  onClose: () => void;
+}
+
+const ChartEditor: React.FC<ChartEditorProps> = ({
+  chart,
+  versionIndex,
+  versionCount,
+  onSelectVersion,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(() => toDraft(chart));
+
+  // Saving or switching versions starts over from the chart on display
+  useEffect(() => {
+    setDraft(toDraft(chart));
+  }, [chart]);
+
+  const edited = useMemo(() => fromDraft(chart, draft), [chart, draft]);
+  const result = useMemo(() => parseChartData(edited), [edited]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(chart));
+
+  const canEditSeries = SERIES_TYPES.includes(draft.chartType);
+  const xAxisOptions = useMemo(() => {
+    const columns = Object.keys(chart.data[0] ?? {});
+    if (draft.chartType === "scatter" || draft.chartType === "bubble") {
+      return columns.filter(
+        (key) =>
+          isNumericColumn(chart, key) &&
+          key !== chart.config.yAxisKey &&
+          key !== chart.config.sizeKey,
+      );
+    }
+    const seriesKeys = draft.series.filter((s) => s.visible).map((s) => s.key);
+    return columns.filter(
+      (key) =>
+        key === draft.xAxisKey ||
+        (!seriesKeys.includes(key) && key !== "isSubtotal"),
+    );
+  }, [chart, draft.chartType, draft.series, draft.xAxisKey]);
+  const visibleCount = draft.series.filter((s) => s.visible).length;
+
+  const update = (changes: Partial<ChartDraft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const updateSeries = (index: number, changes: Partial<SeriesDraft>) =>
+    update({
+      series: draft.series.map((s, i) =>
+        i === index ? { ...s, ...changes } : s,
+      ),
+    });
+
+  const moveSeries = (index: number, offset: number) => {
+    const series = [...draft.series];
+    const [moved] = series.splice(index, 1);
+    series.splice(index + offset, 0, moved);
+    update({ series });
+  };
+
+  const handleSave = () => {
+    if (result.success) onSave(result.data);
+  };
+
+  return (
+    <div className="w-full h-full p-6 flex flex-col gap-4">
+      <div className="w-[90%] mx-auto">
+        <ChartRenderer data={edited} />
+      </div>
+      <Card className="w-[90%] mx-auto">
+        <CardHeader className="flex-row items-center justify-between space-y-0 py-3">
+          <CardTitle className="text-base">Edit chart</CardTitle>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            {versionCount > 1 && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={versionIndex === 0}
+                  onClick={() => onSelectVersion(versionIndex - 1)}
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                  <span className="sr-only">Previous version</span>
+                </Button>
+                <span>
+                  Version {versionIndex + 1} of {versionCount}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={versionIndex === versionCount - 1}
+                  onClick={() => onSelectVersion(versionIndex + 1)}
+                >
+                  <ChevronRight className="w-3 h-3" />
+                  <span className="sr-only">Next version</span>
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" className="ml-2" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!isDirty || !result.success}
+              onClick={handleSave}
+            >
+              Save as new version
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-1 text-sm font-medium">
+              <span>Chart type</span>
+              <select
+                className={fieldClassName}
+                value={draft.chartType}
+                onChange={(e) =>
+                  update({ chartType: e.target.value as ChartData["chartType"] })
+                }
+              >
+                {getCompatibleChartTypes(chart.chartType).map((type) => (
+                  <option key={type} value={type}>
+                    {CHART_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {!FIXED_AXIS_TYPES.includes(draft.chartType) && (
+              <label className="space-y-1 text-sm font-medium">
+                <span>X axis</span>
+                <select
+                  className={fieldClassName}
+                  value={draft.xAxisKey}
+                  onChange={(e) => update({ xAxisKey: e.target.value })}
+                >
+                  {xAxisOptions.map((key) => (
+                    <option key={key} value={key}>
+                      {key}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Title</span>
+            <Input
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+            />
+          </label>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Description</span>
+            <Textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </label>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Footer</span>
+            <Input
+              value={draft.footer}
+              onChange={(e) => update({ footer: e.target.value })}
+            />
+          </label>
+          {draft.chartType !== "kpi" && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Series</div>
+              {draft.series.map((series, index) => (
+                <div key={series.key} className="flex items-center gap-2">
+                  {canEditSeries && (
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={series.visible}
+                      // An empty chartConfig would bring back every column
+                      disabled={series.visible && visibleCount === 1}
+                      onChange={(e) =>
+                        updateSeries(index, { visible: e.target.checked })
+                      }
+                      aria-label={`Show ${series.key}`}
+                    />
+                  )}
+                  <Input
+                    value={series.label}
+                    disabled={!series.visible}
+                    onChange={(e) =>
+                      updateSeries(index, { label: e.target.value })
+                    }
+                  />
+                  <span className="w-24 shrink-0 truncate text-xs text-muted-foreground">
+                    {series.key}
+                  </span>
+                  {canEditSeries && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        disabled={index === 0}
+                        onClick={() => moveSeries(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        disabled={index === draft.series.length - 1}
+                        onClick={() => moveSeries(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ChartEditor;
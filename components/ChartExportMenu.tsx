@@ -0,0 +1,85 @@
+import React from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import type { ChartData } from "@/types/chart";
+import {
+  exportChartAsCsv,
+  exportChartAsJson,
+  exportChartAsPng,
+  exportChartAsSvg,
+} from "@/utils/chartExport";
+
+interface ChartExportMenuProps {
+  chart: ChartData;
+  containerRef: React.RefObject<HTMLElement>;
+}
+
+const ChartExportMenu: React.FC<ChartExportMenuProps> = ({
+  chart,
+  containerRef,
+}) => {
+  const runExport = async (
+    format: string,
+    run: () => void | Promise<void>,
+  ) => {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Failed to export chart as ${format}:`, error);
+      toast({
+        title: "Export failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : `Could not create the ${format}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportImage = (format: "PNG" | "SVG") =>
+    runExport(format, () => {
+      if (!containerRef.current) return;
+      return format === "PNG"
+        ? exportChartAsPng(containerRef.current, chart)
+        : exportChartAsSvg(containerRef.current, chart);
+    });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8">
+          <Download className="h-4 w-4" />
+          <span className="sr-only">Export chart</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => exportImage("PNG")}>
+          PNG image
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportImage("SVG")}>
+          SVG image
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => runExport("CSV", () => exportChartAsCsv(chart))}
+        >
+          Data as CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => runExport("JSON", () => exportChartAsJson(chart))}
+        >
+          Chart spec as JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ChartExportMenu;
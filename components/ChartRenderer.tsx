@@ -9,26 +9,160 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { TrendingUp, TrendingDown } from "lucide-react";
+import {
+  ArrowDown,
+  ChevronRight,
+  TrendingUp,
+  TrendingDown,
+} from "lucide-react";
 import {
   Area,
   AreaChart,
   Bar,
   BarChart,
   CartesianGrid,
+  ComposedChart,
   Label,
+  LabelList,
   Line,
   LineChart,
   Pie,
   PieChart,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  Scatter,
+  ScatterChart,
+  SunburstChart,
+  Treemap,
   XAxis,
+  YAxis,
+  ZAxis,
 } from "recharts";
 import {
   ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
-import type { ChartData } from "@/types/chart";
+import type {
+  ChartData,
+  HierarchyNode,
+  KpiMetric,
+  ValueFormat,
+} from "@/types/chart";
+import { parseChartData } from "@/lib/chartSchema";
+import { formatValue } from "@/lib/valueFormat";
+import ChartExportMenu from "@/components/ChartExportMenu";
+import ChartDataTable from "@/components/ChartDataTable";
+
+// Axis ticks are compact unless the chart's format says otherwise
+const formatAxisTick = (value: number, format?: ValueFormat, unit = "") =>
+  `${formatValue(value, format, { compact: true })}${unit}`;
+
+const annotationColor = "hsl(var(--muted-foreground))";
+
+const annotationLabel = (
+  value: string | undefined,
+  position: "insideTopRight" | "insideTopLeft" | "top",
+) =>
+  value ? { value, position, fill: annotationColor, fontSize: 12 } : undefined;
+
+// Returns elements rather than a component: Recharts only picks up reference
+// lines, areas and dots that are direct children of the chart
+function renderAnnotations(data: ChartData, { dualAxis = false } = {}) {
+  return (data.config.annotations ?? []).map((annotation, index) => {
+    const key = `annotation-${index}`;
+    const yAxisId = dualAxis ? (annotation.axis ?? "left") : undefined;
+
+    switch (annotation.type) {
+      case "line":
+        return (
+          <ReferenceLine
+            key={key}
+            y={annotation.y}
+            yAxisId={yAxisId}
+            stroke={annotationColor}
+            strokeDasharray="4 4"
+            ifOverflow="extendDomain"
+            label={annotationLabel(annotation.label, "insideTopRight")}
+          />
+        );
+      case "range":
+        return (
+          <ReferenceArea
+            key={key}
+            x1={annotation.x1}
+            x2={annotation.x2}
+            y1={annotation.y1}
+            y2={annotation.y2}
+            yAxisId={yAxisId}
+            fill={annotationColor}
+            fillOpacity={0.15}
+            ifOverflow="extendDomain"
+            label={annotationLabel(annotation.label, "insideTopLeft")}
+          />
+        );
+      default:
+        return annotation.y !== undefined ? (
+          <ReferenceDot
+            key={key}
+            x={annotation.x}
+            y={annotation.y}
+            yAxisId={yAxisId}
+            r={4}
+            fill="hsl(var(--foreground))"
+            stroke="hsl(var(--background))"
+            ifOverflow="extendDomain"
+            label={annotationLabel(annotation.label, "top")}
+          />
+        ) : (
+          <ReferenceLine
+            key={key}
+            x={annotation.x}
+            yAxisId={yAxisId}
+            stroke={annotationColor}
+            strokeDasharray="2 2"
+            label={annotationLabel(annotation.label, "insideTopLeft")}
+          />
+        );
+    }
+  });
+}
+
+// Trend and footer note of a chart card; chart-specific lines go first
+function ChartFooter({
+  config,
+  className = "flex-col items-start gap-2 text-sm",
+  children,
+}: {
+  config: ChartData["config"];
+  className?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <CardFooter className={className}>
+      {children}
+      {config.trend && (
+        <div className="flex gap-2 font-medium leading-none">
+          Trending {config.trend.direction} by{" "}
+          {config.trend.percentage}% this period{" "}
+          {config.trend.direction === "up" ? (
+            <TrendingUp className="h-4 w-4" />
+          ) : (
+            <TrendingDown className="h-4 w-4" />
+          )}
+        </div>
+      )}
+      {config.footer && (
+        <div className="leading-none text-muted-foreground">
+          {config.footer}
+        </div>
+      )}
+    </CardFooter>
+  );
+}
 
 function BarChartComponent({ data }: { data: ChartData }) {
   const dataKey = Object.keys(data.chartConfig)[0];
@@ -54,36 +188,35 @@ function BarChartComponent({ data }: { data: ChartData }) {
                   : value;
               }}
             />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
             <ChartTooltip
               cursor={false}
-              content={<ChartTooltipContent hideLabel />}
+              content={
+                <ChartTooltipContent
+                  hideLabel
+                  valueFormatter={(value) =>
+                    formatValue(value, data.config.format)
+                  }
+                />
+              }
             />
             <Bar
               dataKey={dataKey}
               fill={`var(--color-${dataKey})`}
               radius={8}
             />
+            {renderAnnotations(data)}
           </BarChart>
         </ChartContainer>
       </CardContent>
-      <CardFooter className="flex-col items-start gap-2 text-sm">
-        {data.config.trend && (
-          <div className="flex gap-2 font-medium leading-none">
-            Trending {data.config.trend.direction} by{" "}
-            {data.config.trend.percentage}% this period{" "}
-            {data.config.trend.direction === "up" ? (
-              <TrendingUp className="h-4 w-4" />
-            ) : (
-              <TrendingDown className="h-4 w-4" />
-            )}
-          </div>
-        )}
-        {data.config.footer && (
-          <div className="leading-none text-muted-foreground">
-            {data.config.footer}
-          </div>
-        )}
-      </CardFooter>
+      <ChartFooter config={data.config} />
     </Card>
   );
 }
@@ -110,9 +243,24 @@ function MultiBarChartComponent({ data }: { data: ChartData }) {
                   : value;
               }}
             />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
             <ChartTooltip
               cursor={false}
-              content={<ChartTooltipContent indicator="dashed" />}
+              content={
+                <ChartTooltipContent
+                  indicator="dashed"
+                  valueFormatter={(value) =>
+                    formatValue(value, data.config.format)
+                  }
+                />
+              }
             />
             {Object.keys(data.chartConfig).map((key) => (
               <Bar
@@ -122,27 +270,11 @@ function MultiBarChartComponent({ data }: { data: ChartData }) {
                 radius={4}
               />
             ))}
+            {renderAnnotations(data)}
           </BarChart>
         </ChartContainer>
       </CardContent>
-      <CardFooter className="flex-col items-start gap-2 text-sm">
-        {data.config.trend && (
-          <div className="flex gap-2 font-medium leading-none">
-            Trending {data.config.trend.direction} by{" "}
-            {data.config.trend.percentage}% this period{" "}
-            {data.config.trend.direction === "up" ? (
-              <TrendingUp className="h-4 w-4" />
-            ) : (
-              <TrendingDown className="h-4 w-4" />
-            )}
-          </div>
-        )}
-        {data.config.footer && (
-          <div className="leading-none text-muted-foreground">
-            {data.config.footer}
-          </div>
-        )}
-      </CardFooter>
+      <ChartFooter config={data.config} />
     </Card>
   );
 }
@@ -176,9 +308,24 @@ function LineChartComponent({ data }: { data: ChartData }) {
                   : value;
               }}
             />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
             <ChartTooltip
               cursor={false}
-              content={<ChartTooltipContent hideLabel />}
+              content={
+                <ChartTooltipContent
+                  hideLabel
+                  valueFormatter={(value) =>
+                    formatValue(value, data.config.format)
+                  }
+                />
+              }
             />
             {Object.keys(data.chartConfig).map((key) => (
               <Line
@@ -190,27 +337,11 @@ function LineChartComponent({ data }: { data: ChartData }) {
                 dot={false}
               />
             ))}
+            {renderAnnotations(data)}
           </LineChart>
         </ChartContainer>
       </CardContent>
-      <CardFooter className="flex-col items-start gap-2 text-sm">
-        {data.config.trend && (
-          <div className="flex gap-2 font-medium leading-none">
-            Trending {data.config.trend.direction} by{" "}
-            {data.config.trend.percentage}% this period{" "}
-            {data.config.trend.direction === "up" ? (
-              <TrendingUp className="h-4 w-4" />
-            ) : (
-              <TrendingDown className="h-4 w-4" />
-            )}
-          </div>
-        )}
-        {data.config.footer && (
-          <div className="leading-none text-muted-foreground">
-            {data.config.footer}
-          </div>
-        )}
-      </CardFooter>
+      <ChartFooter config={data.config} />
     </Card>
   );
 }
@@ -242,7 +373,14 @@ function PieChartComponent({ data }: { data: ChartData }) {
           <PieChart>
             <ChartTooltip
               cursor={false}
-              content={<ChartTooltipContent hideLabel />}
+              content={
+                <ChartTooltipContent
+                  hideLabel
+                  valueFormatter={(value) =>
+                    formatValue(value, data.config.format)
+                  }
+                />
+              }
             />
             <Pie
               data={chartData}
@@ -266,7 +404,9 @@ function PieChartComponent({ data }: { data: ChartData }) {
                           y={viewBox.cy}
                           className="fill-foreground text-3xl font-bold"
                         >
-                          {totalValue.toLocaleString()}
+                          {formatValue(totalValue, data.config.format, {
+                            compact: true,
+                          })}
                         </tspan>
                         <tspan
                           x={viewBox.cx}
@@ -285,24 +425,7 @@ function PieChartComponent({ data }: { data: ChartData }) {
           </PieChart>
         </ChartContainer>
       </CardContent>
-      <CardFooter className="flex-col gap-2 text-sm">
-        {data.config.trend && (
-          <div className="flex items-center gap-2 font-medium leading-none">
-            Trending {data.config.trend.direction} by{" "}
-            {data.config.trend.percentage}% this period{" "}
-            {data.config.trend.direction === "up" ? (
-              <TrendingUp className="h-4 w-4" />
-            ) : (
-              <TrendingDown className="h-4 w-4" />
-            )}
-          </div>
-        )}
-        {data.config.footer && (
-          <div className="leading-none text-muted-foreground">
-            {data.config.footer}
-          </div>
-        )}
-      </CardFooter>
+      <ChartFooter config={data.config} className="flex-col gap-2 text-sm" />
     </Card>
   );
 }
@@ -342,10 +465,23 @@ function AreaChartComponent({
                   : value;
               }}
             />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
             <ChartTooltip
               cursor={false}
               content={
-                <ChartTooltipContent indicator={stacked ? "dot" : "line"} />
+                <ChartTooltipContent
+                  indicator={stacked ? "dot" : "line"}
+                  valueFormatter={(value) =>
+                    formatValue(value, data.config.format)
+                  }
+                />
               }
             />
             {Object.keys(data.chartConfig).map((key) => (
@@ -359,36 +495,1069 @@ function AreaChartComponent({
                 stackId={stacked ? "a" : undefined}
               />
             ))}
+            {renderAnnotations(data)}
           </AreaChart>
         </ChartContainer>
       </CardContent>
-      <CardFooter>
-        <div className="flex w-full items-start gap-2 text-sm">
-          <div className="grid gap-2">
-            {data.config.trend && (
-              <div className="flex items-center gap-2 font-medium leading-none">
-                Trending {data.config.trend.direction} by{" "}
-                {data.config.trend.percentage}% this period{" "}
-                {data.config.trend.direction === "up" ? (
-                  <TrendingUp className="h-4 w-4" />
-                ) : (
-                  <TrendingDown className="h-4 w-4" />
+      <ChartFooter config={data.config} className="grid gap-2 text-sm" />
+    </Card>
+  );
+}
+
+function WaterfallChartComponent({ data }: { data: ChartData }) {
+  const dataKey = Object.keys(data.chartConfig)[0];
+
+  // Bars float from the previous running total to the new one;
+  // subtotal bars start at zero
+  const chartData = React.useMemo(() => {
+    let running = 0;
+    return data.data.map((row) => {
+      if (row.isSubtotal) {
+        running = row[dataKey] ?? running;
+        return {
+          ...row,
+          range: [0, running],
+          change: running,
+          total: running,
+          fill: "var(--color-subtotal)",
+        };
+      }
+
+      const change = row[dataKey] ?? 0;
+      const start = running;
+      running += change;
+      return {
+        ...row,
+        range: [start, running],
+        change,
+        total: running,
+        fill: change < 0 ? "var(--color-decrease)" : "var(--color-increase)",
+      };
+    });
+  }, [data.data, dataKey]);
+
+  const chartConfig = {
+    ...data.chartConfig,
+    increase: { label: "Increase", color: "hsl(var(--chart-2))" },
+    decrease: { label: "Decrease", color: "hsl(var(--destructive))" },
+    subtotal: {
+      label: "Subtotal",
+      color: data.chartConfig[dataKey].color ?? "hsl(var(--chart-1))",
+    },
+  };
+
+  const formatChange = (value: number) =>
+    `${value > 0 ? "+" : ""}${formatValue(value, data.config.format)}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <BarChart
+            accessibilityLayer
+            data={chartData}
+            margin={{
+              top: 20,
+            }}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey={data.config.xAxisKey}
+              tickLine={false}
+              tickMargin={10}
+              axisLine={false}
+              tickFormatter={(value) => {
+                return value.length > 20
+                  ? `${value.substring(0, 17)}...`
+                  : value;
+              }}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  formatter={(_, __, item) => (
+                    <div className="grid w-full gap-1.5">
+                      <div className="flex justify-between gap-4 leading-none">
+                        <span className="text-muted-foreground">
+                          {item.payload.isSubtotal ? "Subtotal" : "Change"}
+                        </span>
+                        <span className="font-mono font-medium tabular-nums text-foreground">
+                          {item.payload.isSubtotal
+                            ? formatValue(
+                                item.payload.total,
+                                data.config.format,
+                              )
+                            : formatChange(item.payload.change)}
+                        </span>
+                      </div>
+                      {!item.payload.isSubtotal && (
+                        <div className="flex justify-between gap-4 leading-none">
+                          <span className="text-muted-foreground">
+                            Running total
+                          </span>
+                          <span className="font-mono font-medium tabular-nums text-foreground">
+                            {formatValue(
+                              item.payload.total,
+                              data.config.format,
+                            )}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                />
+              }
+            />
+            <ChartLegend
+              content={<ChartLegendContent />}
+              payload={["increase", "decrease", "subtotal"].map((key) => ({
+                value: key,
+                dataKey: key,
+                color: `var(--color-${key})`,
+              }))}
+            />
+            <Bar dataKey="range" name={dataKey} radius={4}>
+              <LabelList
+                dataKey="change"
+                position="top"
+                offset={8}
+                className="fill-foreground"
+                fontSize={12}
+                formatter={(value: number) =>
+                  formatValue(value, data.config.format, { compact: true })
+                }
+              />
+            </Bar>
+            {renderAnnotations(data)}
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+// Recharts passes the bar geometry and the row it was drawn from
+interface CandleProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: { open: number; high: number; low: number; close: number };
+}
+
+// Draws the low-high wick and the open-close body inside a range bar
+function Candle({ x = 0, y = 0, width = 0, height = 0, payload }: CandleProps) {
+  if (!payload) return <g />;
+  const { open, high, low, close } = payload;
+  const scale = high === low ? 0 : height / (high - low);
+  const bodyTop = y + (high - Math.max(open, close)) * scale;
+  const color =
+    close < open ? "var(--color-decrease)" : "var(--color-increase)";
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={x + width / 2} x2={x + width / 2} y1={y} y2={y + height} />
+      <rect
+        x={x}
+        y={bodyTop}
+        width={width}
+        height={Math.max(Math.abs(open - close) * scale, 1)}
+      />
+    </g>
+  );
+}
+
+function OhlcChartComponent({ data }: { data: ChartData }) {
+  const syncId = React.useId();
+  const hasVolume = "volume" in data.chartConfig;
+
+  const chartData = data.data.map((row) => ({
+    ...row,
+    range: [row.low, row.high],
+  }));
+
+  const chartConfig = {
+    ...data.chartConfig,
+    increase: { label: "Up", color: "hsl(var(--chart-2))" },
+    decrease: { label: "Down", color: "hsl(var(--destructive))" },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <BarChart
+            accessibilityLayer
+            data={chartData}
+            syncId={syncId}
+            barCategoryGap="20%"
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey={data.config.xAxisKey}
+              tickLine={false}
+              tickMargin={10}
+              axisLine={false}
+              tickFormatter={(value) => {
+                return value.length > 20
+                  ? `${value.substring(0, 17)}...`
+                  : value;
+              }}
+            />
+            <YAxis
+              domain={["auto", "auto"]}
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  formatter={(_, __, item) => (
+                    <div className="grid w-full gap-1.5">
+                      {["open", "high", "low", "close"].map((key) => (
+                        <div
+                          key={key}
+                          className="flex justify-between gap-4 leading-none"
+                        >
+                          <span className="text-muted-foreground">
+                            {data.chartConfig[key].label}
+                          </span>
+                          <span className="font-mono font-medium tabular-nums text-foreground">
+                            {formatValue(
+                              item.payload[key],
+                              data.config.format,
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Bar dataKey="range" name="close" shape={Candle} />
+            {renderAnnotations(data)}
+          </BarChart>
+        </ChartContainer>
+        {hasVolume && (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-[80px] w-full"
+          >
+            <BarChart accessibilityLayer data={chartData} syncId={syncId}>
+              <XAxis dataKey={data.config.xAxisKey} hide />
+              <YAxis
+                width={48}
+                tick={false}
+                tickLine={false}
+                axisLine={false}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent hideLabel />}
+              />
+              <Bar
+                dataKey="volume"
+                fill="var(--color-volume)"
+                fillOpacity={0.6}
+                radius={2}
+              />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+function ComposedChartComponent({ data }: { data: ChartData }) {
+  const series = Object.entries(data.chartConfig);
+  const hasRightAxis = series.some(([, entry]) => entry.axis === "right");
+  const { left, right } = data.config.axes ?? {};
+  // The right axis usually has its own unit, so only the left one inherits
+  const leftFormat = left?.format ?? data.config.format;
+
+  const formatSeriesValue = (value: number, key: string) =>
+    data.chartConfig[key]?.axis === "right"
+      ? `${formatValue(value, right?.format)}${right?.unit ?? ""}`
+      : `${formatValue(value, leftFormat)}${left?.unit ?? ""}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={data.chartConfig}>
+          <ComposedChart accessibilityLayer data={data.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey={data.config.xAxisKey}
+              tickLine={false}
+              tickMargin={10}
+              axisLine={false}
+              tickFormatter={(value) => {
+                return value.length > 20
+                  ? `${value.substring(0, 17)}...`
+                  : value;
+              }}
+            />
+            <YAxis
+              yAxisId="left"
+              tickLine={false}
+              axisLine={false}
+              width={left?.label ? 64 : 48}
+              tickFormatter={(value) =>
+                formatAxisTick(value, leftFormat, left?.unit)
+              }
+            >
+              {left?.label && (
+                <Label
+                  value={left.label}
+                  angle={-90}
+                  position="insideLeft"
+                  style={{ textAnchor: "middle" }}
+                  className="fill-muted-foreground"
+                />
+              )}
+            </YAxis>
+            {hasRightAxis && (
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                tickLine={false}
+                axisLine={false}
+                width={right?.label ? 64 : 48}
+                tickFormatter={(value) =>
+                  formatAxisTick(value, right?.format, right?.unit)
+                }
+              >
+                {right?.label && (
+                  <Label
+                    value={right.label}
+                    angle={90}
+                    position="insideRight"
+                    style={{ textAnchor: "middle" }}
+                    className="fill-muted-foreground"
+                  />
                 )}
-              </div>
+              </YAxis>
             )}
-            {data.config.footer && (
-              <div className="leading-none text-muted-foreground">
-                {data.config.footer}
-              </div>
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  indicator="dashed"
+                  valueFormatter={formatSeriesValue}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            {series.map(([key, entry]) => {
+              const yAxisId = entry.axis === "right" ? "right" : "left";
+              switch (entry.type) {
+                case "line":
+                  return (
+                    <Line
+                      key={key}
+                      yAxisId={yAxisId}
+                      type="natural"
+                      dataKey={key}
+                      stroke={`var(--color-${key})`}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  );
+                case "area":
+                  return (
+                    <Area
+                      key={key}
+                      yAxisId={yAxisId}
+                      type="natural"
+                      dataKey={key}
+                      fill={`var(--color-${key})`}
+                      fillOpacity={0.4}
+                      stroke={`var(--color-${key})`}
+                      stackId={entry.stacked ? `area-${yAxisId}` : undefined}
+                    />
+                  );
+                default:
+                  return (
+                    <Bar
+                      key={key}
+                      yAxisId={yAxisId}
+                      dataKey={key}
+                      fill={`var(--color-${key})`}
+                      radius={4}
+                      stackId={entry.stacked ? `bar-${yAxisId}` : undefined}
+                    />
+                  );
+              }
+            })}
+            {renderAnnotations(data, { dualAxis: true })}
+          </ComposedChart>
+        </ChartContainer>
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+// Least-squares fit of y on x with its coefficient of determination
+const linearRegression = (points: { x: number; y: number }[]) => {
+  const n = points.length;
+  const meanX = points.reduce((acc, p) => acc + p.x, 0) / n;
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const p of points) {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  }
+  if (n < 2 || sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+  };
+};
+
+function ScatterChartComponent({ data }: { data: ChartData }) {
+  const { categoryKey, sizeKey } = data.config;
+  const xKey = data.config.xAxisKey!;
+  const yKey = data.config.yAxisKey!;
+
+  const points = data.data.filter(
+    (row) => typeof row[xKey] === "number" && typeof row[yKey] === "number",
+  );
+
+  // One coloured series per category, or a single series without one
+  const groups = categoryKey
+    ? Array.from(new Set(points.map((row) => String(row[categoryKey])))).map(
+        (name, index) => ({
+          name,
+          rows: points.filter((row) => String(row[categoryKey]) === name),
+          fill: `hsl(var(--chart-${(index % 5) + 1}))`,
+        }),
+      )
+    : [
+        {
+          name: data.chartConfig[yKey].label,
+          rows: points,
+          fill: `var(--color-${yKey})`,
+        },
+      ];
+
+  // Legend labels are looked up by group name
+  const chartConfig = groups.reduce(
+    (acc, group) => ({ ...acc, [group.name]: { label: group.name } }),
+    { ...data.chartConfig },
+  );
+
+  const fit = data.config.trendLine
+    ? linearRegression(points.map((row) => ({ x: row[xKey], y: row[yKey] })))
+    : null;
+  const xValues = points.map((row) => row[xKey] as number);
+  const [minX, maxX] = [Math.min(...xValues), Math.max(...xValues)];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <ScatterChart accessibilityLayer margin={{ bottom: 12 }}>
+            <CartesianGrid />
+            <XAxis
+              type="number"
+              dataKey={xKey}
+              domain={["auto", "auto"]}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => formatAxisTick(value)}
+            >
+              <Label
+                value={data.chartConfig[xKey].label}
+                position="insideBottom"
+                offset={-8}
+                className="fill-muted-foreground"
+              />
+            </XAxis>
+            <YAxis
+              type="number"
+              dataKey={yKey}
+              domain={["auto", "auto"]}
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              tickFormatter={(value) =>
+                formatAxisTick(value, data.config.format)
+              }
+            >
+              <Label
+                value={data.chartConfig[yKey].label}
+                angle={-90}
+                position="insideLeft"
+                style={{ textAnchor: "middle" }}
+                className="fill-muted-foreground"
+              />
+            </YAxis>
+            {sizeKey && (
+              <ZAxis
+                type="number"
+                dataKey={sizeKey}
+                range={[60, 1200]}
+              />
             )}
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  hideLabel={!categoryKey}
+                  valueFormatter={(value, key) =>
+                    key === yKey
+                      ? formatValue(value, data.config.format)
+                      : value.toLocaleString()
+                  }
+                  labelFormatter={(_, payload) =>
+                    categoryKey && payload[0]?.payload[categoryKey]
+                  }
+                />
+              }
+            />
+            {categoryKey && (
+              <ChartLegend content={<ChartLegendContent nameKey="value" />} />
+            )}
+            {groups.map((group) => (
+              <Scatter
+                key={group.name}
+                name={group.name}
+                data={group.rows}
+                fill={group.fill}
+                fillOpacity={sizeKey ? 0.6 : 1}
+              />
+            ))}
+            {fit && (
+              <ReferenceLine
+                segment={[
+                  { x: minX, y: fit.intercept + fit.slope * minX },
+                  { x: maxX, y: fit.intercept + fit.slope * maxX },
+                ]}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+                ifOverflow="extendDomain"
+              />
+            )}
+            {renderAnnotations(data)}
+          </ScatterChart>
+        </ChartContainer>
+      </CardContent>
+      <ChartFooter config={data.config}>
+        {fit && (
+          <div className="font-medium leading-none">
+            Trend line R² = {fit.r2.toFixed(2)} (slope{" "}
+            {fit.slope.toLocaleString(undefined, { maximumFractionDigits: 3 })})
+          </div>
+        )}
+      </ChartFooter>
+    </Card>
+  );
+}
+
+interface FilledNode extends HierarchyNode {
+  fill: string;
+  children?: FilledNode[];
+}
+
+// Descendants keep the colour of their top-level ancestor
+const withFill = (nodes: HierarchyNode[], fill?: string): FilledNode[] =>
+  nodes.map((node, index) => {
+    const nodeFill = fill ?? `hsl(var(--chart-${(index % 5) + 1}))`;
+    return {
+      ...node,
+      fill: nodeFill,
+      children: node.children && withFill(node.children, nodeFill),
+    };
+  });
+
+const findPath = (nodes: FilledNode[], target: FilledNode): FilledNode[] => {
+  for (const node of nodes) {
+    if (node === target) return [node];
+    const below = node.children ? findPath(node.children, target) : [];
+    if (below.length > 0) return [node, ...below];
+  }
+  return [];
+};
+
+// Recharts lays out each node and passes its data fields alongside
+interface TreemapCellProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  name?: string;
+  fill?: string;
+  childCount?: number;
+}
+
+function TreemapCell({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  depth,
+  name,
+  fill,
+  childCount,
+}: TreemapCellProps) {
+  // The layout root spans the whole chart and is not drawn
+  if (!depth) return null;
+
+  return (
+    <g className={childCount ? "cursor-pointer" : undefined}>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        rx={4}
+        fill={fill}
+        stroke="hsl(var(--background))"
+        strokeWidth={2}
+      />
+      {width > 48 && height > 20 && (
+        <text
+          x={x + 6}
+          y={y + 16}
+          className="fill-background text-xs font-medium"
+        >
+          {name}
+        </text>
+      )}
+    </g>
+  );
+}
+
+interface HierarchyTooltipProps {
+  active?: boolean;
+  // Treemaps wrap the node in payload, sunbursts pass the node itself
+  payload?: Array<{
+    name?: string;
+    value?: number;
+    fill?: string;
+    payload?: { fill?: string };
+  }>;
+  format?: ValueFormat;
+}
+
+function HierarchyTooltip({ active, payload, format }: HierarchyTooltipProps) {
+  const item = payload?.[0];
+  if (!active || !item) return null;
+
+  return (
+    <div className="flex min-w-[8rem] items-center gap-2 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div
+        className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+        style={{ backgroundColor: item.fill ?? item.payload?.fill }}
+      />
+      <span className="flex-1 text-muted-foreground">{item.name}</span>
+      <span className="font-mono font-medium tabular-nums text-foreground">
+        {formatValue(item.value ?? 0, format)}
+      </span>
+    </div>
+  );
+}
+
+function HierarchyChartComponent({ data }: { data: ChartData }) {
+  const roots = React.useMemo(
+    () => withFill(data.data as HierarchyNode[]),
+    [data.data],
+  );
+  const [path, setPath] = React.useState<FilledNode[]>([]);
+  React.useEffect(() => setPath([]), [roots]);
+
+  const current = path[path.length - 1];
+  const nodes = current?.children ?? roots;
+  const rootLabel = data.config.totalLabel || "All";
+
+  const drillInto = (node?: FilledNode) => {
+    const below = node ? findPath(nodes, node) : [];
+    if (below[below.length - 1]?.children?.length) {
+      setPath([...path, ...below]);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+        <nav className="flex flex-wrap items-center gap-1 pt-1 text-sm text-muted-foreground">
+          {[{ name: rootLabel }, ...path].map((node, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && <ChevronRight className="h-3 w-3" />}
+              <button
+                onClick={() => setPath(path.slice(0, index))}
+                disabled={index === path.length}
+                className={
+                  index === path.length
+                    ? "font-medium text-foreground"
+                    : "hover:text-foreground hover:underline"
+                }
+              >
+                {node.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={data.chartConfig}>
+          {data.chartType === "treemap" ? (
+            <Treemap
+              data={nodes.map(({ children, ...node }) => ({
+                ...node,
+                childCount: children?.length ?? 0,
+              }))}
+              dataKey="value"
+              nameKey="name"
+              isAnimationActive={false}
+              content={<TreemapCell />}
+              onClick={(node) => drillInto(nodes[node.index])}
+            >
+              <ChartTooltip
+                content={<HierarchyTooltip format={data.config.format} />}
+              />
+            </Treemap>
+          ) : (
+            <SunburstChart
+              data={{
+                name: current?.name ?? rootLabel,
+                value: nodes.reduce((acc, node) => acc + node.value, 0),
+                children: nodes,
+              }}
+              dataKey="value"
+              stroke="hsl(var(--background))"
+              textOptions={{ fill: "transparent" }}
+              onClick={(node) => drillInto(node as FilledNode)}
+            >
+              <ChartTooltip
+                content={<HierarchyTooltip format={data.config.format} />}
+              />
+            </SunburstChart>
+          )}
+        </ChartContainer>
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+function FunnelChartComponent({ data }: { data: ChartData }) {
+  const dataKey = Object.keys(data.chartConfig)[0];
+  const values: number[] = data.data.map((row) => row[dataKey] ?? 0);
+  const max = Math.max(...values);
+
+  const formatConversion = (value: number, previous: number) =>
+    previous ? `${((value / previous) * 100).toFixed(1)}%` : "n/a";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col items-center gap-1">
+          {data.data.map((row, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <ArrowDown className="h-3 w-3" />
+                  {formatConversion(values[index], values[index - 1])}{" "}
+                  conversion
+                </div>
+              )}
+              <div className="flex w-full items-center gap-3">
+                <div className="w-28 shrink-0 truncate text-right text-sm">
+                  {row[data.config.xAxisKey!]}
+                </div>
+                <div className="flex flex-1 justify-center">
+                  <div
+                    className="flex h-10 items-center justify-center whitespace-nowrap rounded-md text-sm font-medium tabular-nums text-background"
+                    style={{
+                      width: `${max ? Math.max((values[index] / max) * 100, 2) : 0}%`,
+                      backgroundColor: `hsl(var(--chart-${(index % 5) + 1}))`,
+                    }}
+                  >
+                    {formatValue(values[index], data.config.format)}
+                  </div>
+                </div>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      </CardContent>
+      <ChartFooter config={data.config}>
+        {values.length > 1 && (
+          <div className="font-medium leading-none">
+            Overall conversion{" "}
+            {formatConversion(values[values.length - 1], values[0])}
+          </div>
+        )}
+      </ChartFooter>
+    </Card>
+  );
+}
+
+function KpiChartComponent({ data }: { data: ChartData }) {
+  const metrics = data.data as KpiMetric[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {metrics.map((metric, index) => {
+            const color =
+              metric.trend?.direction === "down"
+                ? "hsl(var(--destructive))"
+                : "hsl(var(--chart-2))";
+
+            return (
+              <div key={index} className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">
+                  {metric.label}
+                </div>
+                <div className="mt-1 flex items-baseline gap-1">
+                  <span className="text-2xl font-bold tabular-nums">
+                    {formatValue(metric.value, data.config.format)}
+                  </span>
+                  {metric.unit && (
+                    <span className="text-sm text-muted-foreground">
+                      {metric.unit}
+                    </span>
+                  )}
+                </div>
+                {metric.trend && (
+                  <div
+                    className="mt-1 flex items-center gap-1 text-xs font-medium"
+                    style={{ color }}
+                  >
+                    {metric.trend.direction === "up" ? (
+                      <TrendingUp className="h-3 w-3" />
+                    ) : (
+                      <TrendingDown className="h-3 w-3" />
+                    )}
+                    {metric.trend.direction === "up" ? "+" : "-"}
+                    {metric.trend.percentage}%
+                    <span className="font-normal text-muted-foreground">
+                      {metric.comparisonLabel ?? "vs previous period"}
+                      {metric.previousValue !== undefined &&
+                        ` (${formatValue(metric.previousValue, data.config.format)})`}
+                    </span>
+                  </div>
+                )}
+                {metric.sparkline && metric.sparkline.length > 1 && (
+                  <ChartContainer
+                    config={{ value: { label: metric.label, color } }}
+                    className="mt-2 aspect-auto h-10 w-full"
+                  >
+                    <LineChart
+                      data={metric.sparkline.map((value) => ({ value }))}
+                    >
+                      <YAxis hide domain={["auto", "auto"]} />
+                      <Line
+                        type="natural"
+                        dataKey="value"
+                        stroke="var(--color-value)"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+function HeatmapChartComponent({ data }: { data: ChartData }) {
+  const { rowKey, columnKey, valueKey, colorScale } = data.config;
+  const diverging = colorScale === "diverging";
+
+  // Rows and columns keep the order in which they first appear
+  const rowNames = Array.from(
+    new Set(data.data.map((row) => String(row[rowKey!]))),
+  );
+  const columnNames = Array.from(
+    new Set(data.data.map((row) => String(row[columnKey!]))),
+  );
+  const cells = new Map(
+    data.data.map((row) => [
+      `${row[rowKey!]}|${row[columnKey!]}`,
+      row[valueKey!] as number | null,
+    ]),
+  );
+
+  const values = data.data
+    .map((row) => row[valueKey!])
+    .filter((value): value is number => typeof value === "number");
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const maxAbs = Math.max(Math.abs(min), Math.abs(max));
+
+  const cellColor = (value: number) => {
+    if (diverging) {
+      const alpha = maxAbs ? Math.abs(value) / maxAbs : 0;
+      return value < 0
+        ? `hsl(var(--destructive) / ${alpha})`
+        : `hsl(var(--chart-2) / ${alpha})`;
+    }
+    const alpha = max === min ? 1 : (value - min) / (max - min);
+    return `hsl(var(--chart-1) / ${0.1 + alpha * 0.9})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{data.config.title}</CardTitle>
+        <CardDescription>{data.config.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-0.5 text-xs"
+            style={{
+              gridTemplateColumns: `auto repeat(${columnNames.length}, minmax(2.5rem, 1fr))`,
+            }}
+          >
+            <div />
+            {columnNames.map((column) => (
+              <div
+                key={column}
+                className="truncate px-1 pb-1 text-center text-muted-foreground"
+              >
+                {column}
+              </div>
+            ))}
+            {rowNames.map((rowName) => (
+              <React.Fragment key={rowName}>
+                <div className="truncate pr-2 text-right leading-8 text-muted-foreground">
+                  {rowName}
+                </div>
+                {columnNames.map((column) => {
+                  const value = cells.get(`${rowName}|${column}`);
+                  return (
+                    <div
+                      key={column}
+                      title={`${rowName}, ${column}: ${
+                        typeof value === "number"
+                          ? formatValue(value, data.config.format)
+                          : "no data"
+                      }`}
+                      className="flex h-8 items-center justify-center rounded-sm bg-muted tabular-nums"
+                      style={
+                        typeof value === "number"
+                          ? { backgroundColor: cellColor(value) }
+                          : undefined
+                      }
+                    >
+                      {typeof value === "number" &&
+                        formatAxisTick(value, data.config.format)}
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
           </div>
         </div>
-      </CardFooter>
+        <div className="mt-4 flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="tabular-nums">
+            {formatValue(diverging ? -maxAbs : min, data.config.format)}
+          </span>
+          <div
+            className="h-2 flex-1 rounded-full"
+            style={{
+              background: diverging
+                ? "linear-gradient(to right, hsl(var(--destructive)), transparent, hsl(var(--chart-2)))"
+                : "linear-gradient(to right, hsl(var(--chart-1) / 0.1), hsl(var(--chart-1)))",
+            }}
+          />
+          <span className="tabular-nums">
+            {formatValue(diverging ? maxAbs : max, data.config.format)}
+          </span>
+          <span>{data.chartConfig[valueKey!]?.label}</span>
+        </div>
+      </CardContent>
+      <ChartFooter config={data.config} />
+    </Card>
+  );
+}
+
+function InvalidChartComponent({ issues }: { issues: string[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Chart unavailable</CardTitle>
+        <CardDescription>
+          The chart data didn&apos;t match the expected format.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      </CardContent>
     </Card>
   );
 }
 
-export function ChartRenderer({ data }: { data: ChartData }) {
+function renderChart(data: ChartData) {
   switch (data.chartType) {
     case "bar":
       return <BarChartComponent data={data} />;
@@ -402,7 +1571,45 @@ export function ChartRenderer({ data }: { data: ChartData }) {
       return <AreaChartComponent data={data} />;
     case "stackedArea":
       return <AreaChartComponent data={data} stacked />;
+    case "waterfall":
+      return <WaterfallChartComponent data={data} />;
+    case "ohlc":
+      return <OhlcChartComponent data={data} />;
+    case "composed":
+      return <ComposedChartComponent data={data} />;
+    case "scatter":
+    case "bubble":
+      return <ScatterChartComponent data={data} />;
+    case "treemap":
+    case "sunburst":
+      return <HierarchyChartComponent data={data} />;
+    case "funnel":
+      return <FunnelChartComponent data={data} />;
+    case "kpi":
+      return <KpiChartComponent data={data} />;
+    case "heatmap":
+      return <HeatmapChartComponent data={data} />;
     default:
       return null;
   }
 }
+
+export function ChartRenderer({ data: input }: { data: ChartData }) {
+  const result = React.useMemo(() => parseChartData(input), [input]);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  if (!result.success) {
+    return <InvalidChartComponent issues={result.issues} />;
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative">
+        {renderChart(result.data)}
+        <div className="absolute right-4 top-4">
+          <ChartExportMenu chart={result.data} containerRef={containerRef} />
+        </div>
+      </div>
+      <ChartDataTable chart={result.data} />
+    </div>
+  );
+}
@@ -2,14 +2,10 @@ import React from "react";
 import { X, FileText } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import Image from "next/image";
+import { getFileUrl, type FileUpload } from "@/utils/fileHandling";
 
 interface FilePreviewProps {
-  file: {
-    base64: string;
-    fileName: string;
-    mediaType: string;
-    isText?: boolean;
-  };
+  file: FileUpload;
   onRemove?: () => void;
   size?: "small" | "large";
 }
@@ -29,9 +25,7 @@ const FilePreview: React.FC<FilePreviewProps> = ({
         )}`
       : file.fileName;
 
-  const imageUrl = isImage
-    ? `data:${file.mediaType};base64,${file.base64}`
-    : "";
+  const imageUrl = isImage ? getFileUrl(file) : "";
 
   if (size === "small") {
     return (
@@ -0,0 +1,103 @@
+import React from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+
+// Tables get the same surface as the shadcn Card so figures read like the charts
+const components: Components = {
+  table: ({ node, className, ...props }) => (
+    <div className="my-2 w-full overflow-x-auto rounded-xl border bg-card text-card-foreground shadow">
+      <table className={cn("w-full text-sm", className)} {...props} />
+    </div>
+  ),
+  thead: ({ node, className, ...props }) => (
+    <thead className={cn("bg-muted/50", className)} {...props} />
+  ),
+  th: ({ node, className, ...props }) => (
+    <th
+      className={cn(
+        "px-3 py-2 text-left font-medium text-muted-foreground",
+        className,
+      )}
+      {...props}
+    />
+  ),
+  td: ({ node, className, ...props }) => (
+    <td
+      className={cn("border-t px-3 py-2 tabular-nums", className)}
+      {...props}
+    />
+  ),
+  ul: ({ node, className, ...props }) => (
+    <ul
+      className={cn("my-2 list-disc pl-5 space-y-1", className)}
+      {...props}
+    />
+  ),
+  ol: ({ node, className, ...props }) => (
+    <ol
+      className={cn("my-2 list-decimal pl-5 space-y-1", className)}
+      {...props}
+    />
+  ),
+  p: ({ node, className, ...props }) => (
+    <p className={cn("my-2 first:mt-0 last:mb-0", className)} {...props} />
+  ),
+  h1: ({ node, className, ...props }) => (
+    <h3
+      className={cn("mt-3 mb-2 text-lg font-semibold", className)}
+      {...props}
+    />
+  ),
+  h2: ({ node, className, ...props }) => (
+    <h4 className={cn("mt-3 mb-2 font-semibold", className)} {...props} />
+  ),
+  h3: ({ node, className, ...props }) => (
+    <h5 className={cn("mt-3 mb-1 font-semibold", className)} {...props} />
+  ),
+  a: ({ node, className, ...props }) => (
+    <a
+      className={cn("underline underline-offset-4", className)}
+      target="_blank"
+      rel="noopener noreferrer"
+      {...props}
+    />
+  ),
+  pre: ({ node, className, ...props }) => (
+    <pre
+      className={cn(
+        "my-2 overflow-x-auto rounded-md border bg-background p-3 text-xs",
+        className,
+      )}
+      {...props}
+    />
+  ),
+  code: ({ node, className, ...props }) => (
+    <code
+      className={cn(
+        "rounded bg-background px-1 py-0.5 font-mono text-xs",
+        className,
+      )}
+      {...props}
+    />
+  ),
+};
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+// Raw HTML in model output is dropped rather than rendered
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => (
+  <div className="break-words">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={components}
+      skipHtml
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
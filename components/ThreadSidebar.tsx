@@ -0,0 +1,80 @@
+import React from "react";
+import { MessageSquare, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ConversationSummary } from "@/types/conversation";
+
+interface ThreadSidebarProps {
+  threads: ConversationSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
+  threads,
+  activeId,
+  onSelect,
+  onNew,
+  onDelete,
+  disabled,
+}) => {
+  return (
+    <Card className="w-56 shrink-0 flex flex-col h-full">
+      <CardHeader className="py-3 px-4 flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Threads</CardTitle>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onNew}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">New chat</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.length === 0 ? (
+          <p className="px-2 text-sm text-muted-foreground">
+            Your conversations will appear here.
+          </p>
+        ) : (
+          threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer ${
+                thread.id === activeId
+                  ? "bg-accent text-accent-foreground"
+                  : "hover:bg-muted"
+              } ${disabled ? "pointer-events-none opacity-50" : ""}`}
+              onClick={() => onSelect(thread.id)}
+            >
+              <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{thread.title}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(thread.updatedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(thread.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete thread</span>
+              </button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThreadSidebar;
@@ -0,0 +1,600 @@
+// lib/chartSchema.ts
+// Runtime counterpart of types/chart.ts, shared by the API route and ChartRenderer
+import type {
+  AxisConfig,
+  ChartAnnotation,
+  ChartConfig,
+  ChartData,
+  HierarchyNode,
+  KpiMetric,
+  Trend,
+  ValueFormat,
+} from "@/types/chart";
+
+export const CHART_TYPES: ChartData["chartType"][] = [
+  "bar",
+  "multiBar",
+  "line",
+  "pie",
+  "area",
+  "stackedArea",
+  "waterfall",
+  "ohlc",
+  "composed",
+  "scatter",
+  "bubble",
+  "treemap",
+  "sunburst",
+  "funnel",
+  "kpi",
+  "heatmap",
+];
+
+// Types in a group read the same data shape, so a chart can switch between them
+const COMPATIBLE_CHART_TYPES: ChartData["chartType"][][] = [
+  [
+    "bar",
+    "multiBar",
+    "line",
+    "area",
+    "stackedArea",
+    "composed",
+    "pie",
+    "funnel",
+  ],
+  ["scatter", "bubble"],
+  ["treemap", "sunburst"],
+];
+
+export const getCompatibleChartTypes = (
+  chartType: ChartData["chartType"],
+): ChartData["chartType"][] =>
+  COMPATIBLE_CHART_TYPES.find((group) => group.includes(chartType)) ?? [
+    chartType,
+  ];
+
+const OHLC_KEYS = ["open", "high", "low", "close", "volume"];
+
+export type ChartParseResult =
+  | { success: true; data: ChartData }
+  | { success: false; issues: string[] };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Accept spellings models commonly use, e.g. "stacked_area" or "Bar"
+const normalizeChartType = (value: unknown) => {
+  if (typeof value !== "string") return undefined;
+  const compact = value.replace(/[\s_-]/g, "").toLowerCase();
+  return CHART_TYPES.find((type) => type.toLowerCase() === compact);
+};
+
+// "$1,234.5", "12%" and "1 200" all become numbers
+const toNumber = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const cleaned = value.replace(/[\s,$€£¥%]/g, "");
+  const parsed = Number(cleaned);
+  return cleaned && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toChartConfig = (value: unknown): ChartConfig =>
+  Object.entries(isObject(value) ? value : {}).reduce(
+    (acc, [key, entry]) => ({
+      ...acc,
+      [key]:
+        typeof entry === "string"
+          ? { label: entry }
+          : { ...entry, label: entry?.label ?? key },
+    }),
+    {} as ChartConfig,
+  );
+
+const toTrend = (value: unknown): Trend | undefined => {
+  if (!isObject(value)) return undefined;
+  const percentage = toNumber(value.percentage);
+  const direction = String(value.direction ?? "").toLowerCase();
+  return typeof percentage === "number" &&
+    (direction === "up" || direction === "down")
+    ? { percentage, direction }
+    : undefined;
+};
+
+// Keeps only what Intl.NumberFormat accepts, e.g. a valid currency code
+const toValueFormat = (value: unknown): ValueFormat | undefined => {
+  if (!isObject(value)) return undefined;
+
+  const currency =
+    typeof value.currency === "string" && /^[a-z]{3}$/i.test(value.currency)
+      ? value.currency.toUpperCase()
+      : undefined;
+  const style = ["number", "currency", "percent"].includes(value.style)
+    ? value.style
+    : currency
+      ? "currency"
+      : "number";
+  const decimals = toNumber(value.decimals);
+
+  let locale: string | undefined;
+  try {
+    locale =
+      typeof value.locale === "string" &&
+      Intl.NumberFormat.supportedLocalesOf(value.locale).length > 0
+        ? value.locale
+        : undefined;
+  } catch {
+    locale = undefined;
+  }
+
+  return {
+    style: style === "currency" && !currency ? "number" : style,
+    currency,
+    compact:
+      typeof value.compact === "boolean"
+        ? value.compact
+        : value.style === "compact" || value.compact === "true" || undefined,
+    decimals:
+      typeof decimals === "number" &&
+      Number.isInteger(decimals) &&
+      decimals >= 0 &&
+      decimals <= 20
+        ? decimals
+        : undefined,
+    locale,
+  };
+};
+
+const ANNOTATION_TYPES: Record<string, ChartAnnotation["type"]> = {
+  line: "line",
+  referenceline: "line",
+  threshold: "line",
+  target: "line",
+  range: "range",
+  band: "range",
+  area: "range",
+  label: "label",
+  point: "label",
+  event: "label",
+  marker: "label",
+};
+
+// Annotations are optional, so unusable ones are dropped rather than reported.
+// x values take the type of the x-axis column: a category axis only matches
+// 2022 to the year 2022, not to "2022"
+const toAnnotations = (
+  value: unknown,
+  sampleX: unknown,
+): ChartAnnotation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const toX = (x: unknown) =>
+    typeof x !== "string" && typeof x !== "number"
+      ? undefined
+      : typeof sampleX === "number"
+        ? (toNumber(x) ?? undefined)
+        : String(x);
+  const toY = (y: unknown) => toNumber(y) ?? undefined;
+
+  return value.filter(isObject).flatMap((raw): ChartAnnotation[] => {
+    const typeName = String(raw.type).replace(/[\s_-]/g, "").toLowerCase();
+    const type = ANNOTATION_TYPES[typeName];
+    const annotation: ChartAnnotation = {
+      type,
+      label: typeof raw.label === "string" ? raw.label : undefined,
+      x: toX(raw.x),
+      y: toY(raw.y),
+      x1: toX(raw.x1),
+      x2: toX(raw.x2),
+      y1: toY(raw.y1),
+      y2: toY(raw.y2),
+      axis: raw.axis === "right" ? "right" : undefined,
+    };
+
+    const hasYRange =
+      annotation.y1 !== undefined && annotation.y2 !== undefined;
+    const hasXRange =
+      annotation.x1 !== undefined && annotation.x2 !== undefined;
+    const usable =
+      (type === "line" && annotation.y !== undefined) ||
+      (type === "range" && (hasYRange || hasXRange)) ||
+      (type === "label" && annotation.x !== undefined && !!annotation.label);
+    return usable ? [annotation] : [];
+  });
+};
+
+const toAxisConfig = (value: unknown): AxisConfig | undefined =>
+  isObject(value) ? { ...value, format: toValueFormat(value.format) } : undefined;
+
+const toKpiMetrics = (rows: Record<string, any>[], issues: string[]) =>
+  rows.map((row, index): KpiMetric => {
+    const label = row.label ?? row.name ?? row.metric;
+    if (typeof label !== "string" || !label.trim()) {
+      issues.push(`data[${index}].label is required`);
+    }
+    const value = toNumber(row.value);
+    if (typeof value !== "number") {
+      issues.push(`data[${index}].value is not a number`);
+    }
+
+    const previousValue = toNumber(row.previousValue) ?? undefined;
+    let trend = toTrend(row.trend);
+    if (!trend && typeof value === "number" && previousValue) {
+      const change = ((value - previousValue) / Math.abs(previousValue)) * 100;
+      trend = {
+        percentage: Math.round(Math.abs(change) * 10) / 10,
+        direction: change < 0 ? "down" : "up",
+      };
+    }
+
+    return {
+      label: String(label),
+      value: value ?? 0,
+      unit: typeof row.unit === "string" ? row.unit : undefined,
+      previousValue,
+      comparisonLabel:
+        typeof row.comparisonLabel === "string"
+          ? row.comparisonLabel
+          : undefined,
+      trend,
+      sparkline: Array.isArray(row.sparkline)
+        ? row.sparkline
+            .map(toNumber)
+            .filter((point): point is number => typeof point === "number")
+        : undefined,
+    };
+  });
+
+const toHierarchyNodes = (
+  nodes: unknown[],
+  path: string,
+  issues: string[],
+): HierarchyNode[] =>
+  nodes.map((node, index) => {
+    const at = `${path}[${index}]`;
+    if (!isObject(node)) {
+      issues.push(`${at} must be an object`);
+      return { name: "", value: 0 };
+    }
+
+    const name = node.name ?? node.label;
+    if (typeof name !== "string" && typeof name !== "number") {
+      issues.push(`${at}.name is required`);
+    }
+    if (Array.isArray(node.children) && node.children.length > 0) {
+      const children = toHierarchyNodes(
+        node.children,
+        `${at}.children`,
+        issues,
+      );
+      return {
+        name: String(name),
+        value: children.reduce((acc, child) => acc + child.value, 0),
+        children,
+      };
+    }
+
+    const value = toNumber(node.value);
+    if (typeof value !== "number" || value < 0) {
+      issues.push(`${at}.value is not a positive number`);
+    }
+    return { name: String(name), value: value ?? 0 };
+  });
+
+const inferSeriesKeys = (rows: Record<string, any>[], exclude?: string) =>
+  Object.keys(rows[0] ?? {}).filter(
+    (key) =>
+      key !== exclude &&
+      rows.every((row) => toNumber(row[key]) !== undefined),
+  );
+
+export function parseChartData(input: unknown): ChartParseResult {
+  if (!isObject(input)) {
+    return { success: false, issues: ["chart data must be an object"] };
+  }
+
+  const issues: string[] = [];
+  const chartType = normalizeChartType(input.chartType ?? input.chart_type);
+  if (!chartType) {
+    issues.push(`chartType must be one of ${CHART_TYPES.join(", ")}`);
+  }
+
+  const rawConfig = isObject(input.config) ? input.config : {};
+  if (typeof rawConfig.title !== "string" || !rawConfig.title.trim()) {
+    issues.push("config.title is required");
+  }
+
+  const rows = Array.isArray(input.data) ? input.data : [];
+  if (rows.length === 0 || !rows.every(isObject)) {
+    issues.push("data must be a non-empty array of objects");
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  let chartConfig = toChartConfig(input.chartConfig);
+  let xAxisKey: string | undefined =
+    typeof rawConfig.xAxisKey === "string" ? rawConfig.xAxisKey : undefined;
+  let data: Record<string, any>[] = rows;
+  let derivedConfig: Partial<ChartData["config"]> = {};
+
+  // Pick the first non-numeric column when the category key is missing
+  if (!xAxisKey || !(xAxisKey in rows[0])) {
+    const seriesKeys = inferSeriesKeys(rows);
+    const fallback = Object.keys(rows[0]).find(
+      (k) => !seriesKeys.includes(k) && k !== "isSubtotal",
+    );
+    if (xAxisKey && !fallback) {
+      issues.push(`config.xAxisKey "${xAxisKey}" is not a key of data`);
+    }
+    xAxisKey = fallback ?? xAxisKey;
+  }
+
+  if (chartType === "pie") {
+    // Pie charts render { segment, value } rows
+    if (!rows.every((row) => "segment" in row && "value" in row)) {
+      const valueKey =
+        Object.keys(chartConfig).find((key) => key in rows[0]) ??
+        inferSeriesKeys(rows, xAxisKey)[0];
+      if (!valueKey) {
+        issues.push("pie data needs a numeric value column");
+      }
+      data = rows.map((row) => ({
+        segment:
+          row[xAxisKey ?? "segment"] ?? row.segment ?? row.category ?? row.name,
+        value: (valueKey && row[valueKey]) ?? row.value,
+      }));
+    }
+    xAxisKey = "segment";
+    if (Object.keys(chartConfig).length === 0) {
+      chartConfig = { value: { label: rawConfig.totalLabel ?? "Value" } };
+    }
+  } else if (chartType === "kpi") {
+    // One metric card per row
+    data = toKpiMetrics(rows, issues);
+    xAxisKey = "label";
+    chartConfig = { value: { label: "Value" } };
+  } else if (chartType === "treemap" || chartType === "sunburst") {
+    // Nested { name, value, children } nodes; leaves carry the values
+    data = toHierarchyNodes(rows, "data", issues);
+    xAxisKey = "name";
+    chartConfig = {
+      value: chartConfig.value ?? { label: rawConfig.totalLabel ?? "Value" },
+    };
+  } else {
+    // Series keys must exist in the data; infer them when none are declared
+    const declared = Object.keys(chartConfig);
+    const present = declared.filter((key) => rows.some((row) => key in row));
+    if (declared.length === 0) {
+      chartConfig = inferSeriesKeys(rows, xAxisKey).reduce(
+        (acc, key) => ({ ...acc, [key]: { label: key } }),
+        {} as ChartConfig,
+      );
+      if (Object.keys(chartConfig).length === 0) {
+        issues.push("chartConfig must declare at least one numeric series");
+      }
+    } else if (present.length === 0) {
+      issues.push(
+        `none of the chartConfig keys (${declared.join(", ")}) appear in data`,
+      );
+    } else {
+      chartConfig = present.reduce(
+        (acc, key) => ({ ...acc, [key]: chartConfig[key] }),
+        {} as ChartConfig,
+      );
+    }
+  }
+
+  if (chartType === "waterfall") {
+    // A single value column of signed changes; subtotal values are optional
+    const [valueKey] = Object.keys(chartConfig);
+    chartConfig = valueKey ? { [valueKey]: chartConfig[valueKey] } : {};
+    data = data.map((row) => ({
+      ...row,
+      isSubtotal: row.isSubtotal === true || row.isSubtotal === "true",
+    }));
+  }
+
+  if (chartType === "funnel") {
+    // One value per stage, widest stage first
+    const [valueKey] = Object.keys(chartConfig);
+    chartConfig = valueKey ? { [valueKey]: chartConfig[valueKey] } : {};
+    if (valueKey && rows.some((row) => (toNumber(row[valueKey]) ?? 0) < 0)) {
+      issues.push("funnel stage values must not be negative");
+    }
+  }
+
+  if (chartType === "ohlc") {
+    // Candles always use the same keys; volume is optional
+    const missing = OHLC_KEYS.slice(0, 4).filter(
+      (key) => !rows.every((row) => key in row),
+    );
+    if (missing.length > 0) {
+      issues.push(`ohlc data needs ${missing.join(", ")} on every row`);
+    }
+    // The wick has to span the body; non-numeric prices are reported below
+    rows.forEach((row, index) => {
+      const [open, high, low, close] = OHLC_KEYS.slice(0, 4).map((key) =>
+        toNumber(row[key]),
+      );
+      if (open == null || high == null || low == null || close == null) {
+        return;
+      }
+      if (low > Math.min(open, close) || high < Math.max(open, close)) {
+        issues.push(`data[${index}] needs low <= open, close <= high`);
+      }
+    });
+    const declared = toChartConfig(input.chartConfig);
+    chartConfig = OHLC_KEYS.filter((key) =>
+      rows.some((row) => key in row),
+    ).reduce(
+      (acc, key) => ({
+        ...acc,
+        [key]: declared[key] ?? {
+          label: key.charAt(0).toUpperCase() + key.slice(1),
+        },
+      }),
+      {} as ChartConfig,
+    );
+  }
+
+  if (chartType === "composed") {
+    // Series default to bars on the left axis
+    chartConfig = Object.entries(chartConfig).reduce(
+      (acc, [key, entry]) => ({
+        ...acc,
+        [key]: {
+          ...entry,
+          type:
+            entry.type === "line" || entry.type === "area" ? entry.type : "bar",
+          axis: entry.axis === "right" ? "right" : "left",
+        },
+      }),
+      {} as ChartConfig,
+    );
+  }
+
+  if (chartType === "scatter" || chartType === "bubble") {
+    // Both axes are numeric; the declared keys win over inferred ones
+    const numeric = inferSeriesKeys(rows);
+    const pick = (key: unknown, exclude: (string | undefined)[]) =>
+      typeof key === "string" && numeric.includes(key)
+        ? key
+        : numeric.find((k) => !exclude.includes(k));
+
+    const xKey = pick(rawConfig.xAxisKey, []);
+    const yKey = pick(rawConfig.yAxisKey, [xKey]);
+    const sizeKey =
+      chartType === "bubble"
+        ? pick(rawConfig.sizeKey, [xKey, yKey])
+        : undefined;
+    if (!xKey || !yKey) {
+      issues.push(`${chartType} data needs two numeric columns for x and y`);
+    }
+    if (chartType === "bubble" && !sizeKey) {
+      issues.push("bubble data needs a numeric size column");
+    }
+
+    xAxisKey = xKey;
+    derivedConfig = {
+      yAxisKey: yKey,
+      sizeKey,
+      categoryKey:
+        typeof rawConfig.categoryKey === "string" &&
+        rawConfig.categoryKey in rows[0]
+          ? rawConfig.categoryKey
+          : undefined,
+    };
+    chartConfig = [xKey, yKey, sizeKey].reduce(
+      (acc, key) =>
+        key
+          ? {
+              ...acc,
+              [key]: {
+                ...chartConfig[key],
+                label: chartConfig[key]?.label ?? key,
+              },
+            }
+          : acc,
+      {} as ChartConfig,
+    );
+  }
+
+  if (chartType === "heatmap") {
+    // Long-format rows: one value per row × column pair
+    const numeric = inferSeriesKeys(rows);
+    const labels = Object.keys(rows[0]).filter((k) => !numeric.includes(k));
+    const isKey = (key: unknown): key is string =>
+      typeof key === "string" && key in rows[0];
+
+    const givenRow = isKey(rawConfig.rowKey) ? rawConfig.rowKey : undefined;
+    const columnKey = isKey(rawConfig.columnKey)
+      ? rawConfig.columnKey
+      : labels.find((k) => k !== givenRow);
+    const rowKey = givenRow ?? labels.find((k) => k !== columnKey);
+    const valueKey =
+      isKey(rawConfig.valueKey) && numeric.includes(rawConfig.valueKey)
+        ? rawConfig.valueKey
+        : numeric.find((k) => k !== rowKey && k !== columnKey);
+    if (!rowKey || !columnKey) {
+      issues.push("heatmap data needs a row column and a column column");
+    }
+    if (!valueKey) {
+      issues.push("heatmap data needs a numeric value column");
+    }
+
+    xAxisKey = columnKey;
+    derivedConfig = {
+      rowKey,
+      columnKey,
+      valueKey,
+      colorScale:
+        rawConfig.colorScale === "diverging" ? "diverging" : "sequential",
+    };
+    chartConfig = valueKey
+      ? { [valueKey]: { label: chartConfig[valueKey]?.label ?? valueKey } }
+      : {};
+  }
+
+  // Coerce series values to numbers
+  const valueKeys =
+    chartType === "pie"
+      ? ["value"]
+      : chartType === "treemap" ||
+          chartType === "sunburst" ||
+          chartType === "kpi"
+        ? []
+        : Object.keys(chartConfig);
+  data = data.map((row, index) =>
+    valueKeys.reduce(
+      (acc, key) => {
+        const value = toNumber(row[key]);
+        if (value === undefined) {
+          issues.push(`data[${index}].${key} is not a number`);
+          return acc;
+        }
+        return { ...acc, [key]: value };
+      },
+      { ...row },
+    ),
+  );
+
+  if (issues.length > 0) {
+    return { success: false, issues: Array.from(new Set(issues)) };
+  }
+
+  return {
+    success: true,
+    data: {
+      chartType: chartType!,
+      config: {
+        ...rawConfig,
+        title: rawConfig.title,
+        description:
+          typeof rawConfig.description === "string"
+            ? rawConfig.description
+            : "",
+        trend: toTrend(rawConfig.trend),
+        format: toValueFormat(rawConfig.format),
+        annotations: toAnnotations(
+          rawConfig.annotations,
+          xAxisKey ? data[0]?.[xAxisKey] : undefined,
+        ),
+        axes: isObject(rawConfig.axes)
+          ? {
+              left: toAxisConfig(rawConfig.axes.left),
+              right: toAxisConfig(rawConfig.axes.right),
+            }
+          : undefined,
+        xAxisKey,
+        ...derivedConfig,
+      },
+      data,
+      chartConfig,
+    },
+  };
+}
@@ -0,0 +1,95 @@
+// lib/chartTool.ts
+import type { ChartData } from "@/types/chart";
+import { parseChartData } from "./chartSchema";
+
+export const CHART_TOOL_NAME = "generate_graph_data";
+
+export class InvalidChartDataError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid chart data: ${issues.join("; ")}`);
+    this.name = "InvalidChartDataError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Validates the tool input and assigns the theme colors used by ChartRenderer
+export function toChartData(input: Record<string, any>): ChartData {
+  const result = parseChartData(input);
+  if (!result.success) {
+    throw new InvalidChartDataError(result.issues);
+  }
+
+  const chartData = result.data;
+
+  // Create chartConfig with system color variables
+  const processedChartConfig = Object.entries(chartData.chartConfig).reduce(
+    (acc, [key, config], index) => ({
+      ...acc,
+      [key]: {
+        ...config,
+        color: `hsl(var(--chart-${index + 1}))`,
+      },
+    }),
+    {},
+  );
+
+  return {
+    ...chartData,
+    chartConfig: processedChartConfig,
+  };
+}
+
+const FENCED_BLOCK = /```(?:json)?\s*\n?([\s\S]*?)```/g;
+
+const parseChartCandidate = (candidate: string) => {
+  try {
+    const parsed = JSON.parse(candidate);
+    // Some models wrap the input as { name, arguments } or use snake_case
+    const input = isObject(parsed.arguments) ? parsed.arguments : parsed;
+    return isObject(input) && (input.chartType || input.chart_type)
+      ? input
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Last resort for models that write tool inputs as text instead of calling the tool
+export function extractChartInputsFromText(
+  text: string,
+): Record<string, any>[] {
+  const fenced = Array.from(text.matchAll(FENCED_BLOCK), (match) =>
+    parseChartCandidate(match[1]),
+  ).filter((input): input is Record<string, any> => !!input);
+
+  if (fenced.length > 0) return fenced;
+
+  const bare = parseChartCandidate(
+    text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1),
+  );
+  return bare ? [bare] : [];
+}
+
+// Removes chart JSON written as text, including a block still being streamed
+export function stripChartInputsFromText(text: string): string {
+  return text
+    .replace(FENCED_BLOCK, (block, body) =>
+      parseChartCandidate(body) ? "" : block,
+    )
+    .replace(/```(?:json)?[^`]*"chart_?[tT]ype"[^`]*$/, "")
+    .trim();
+}
+
+// Charts are not sent back to the model, so later turns get this instead
+export function describeChart(chart: ChartData): string {
+  const series = Object.keys(chart.chartConfig);
+  return [
+    `${chart.chartType} chart "${chart.config.title}"`,
+    chart.config.xAxisKey && `x axis: ${chart.config.xAxisKey}`,
+    series.length > 0 && `series: ${series.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
@@ -0,0 +1,33 @@
+// lib/conversationOwner.ts
+// There are no user accounts, so each browser gets its own server-side store,
+// identified by a random id in an httpOnly cookie
+import type { NextRequest } from "next/server";
+
+const OWNER_COOKIE = "conversation-owner";
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+export interface ConversationOwner {
+  id: string;
+  isNew: boolean;
+}
+
+export const getConversationOwner = (req: NextRequest): ConversationOwner => {
+  const id = req.cookies.get(OWNER_COOKIE)?.value;
+  return id && /^[0-9a-f-]{36}$/.test(id)
+    ? { id, isNew: false }
+    : { id: crypto.randomUUID(), isNew: true };
+};
+
+// Sets the cookie on the first response to a browser that has none
+export const withOwnerCookie = (
+  response: Response,
+  owner: ConversationOwner,
+): Response => {
+  if (owner.isNew) {
+    response.headers.append(
+      "Set-Cookie",
+      `${OWNER_COOKIE}=${owner.id}; Path=/api/conversations; Max-Age=${ONE_YEAR}; HttpOnly; SameSite=Lax`,
+    );
+  }
+  return response;
+};
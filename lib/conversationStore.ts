@@ -0,0 +1,95 @@
+// lib/conversationStore.ts
+// Server-side copy of conversations, one JSON file per thread in a directory
+// per owner, see lib/conversationOwner.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  Conversation,
+  ConversationSummary,
+} from "@/types/conversation";
+
+const CONVERSATION_STORE_DIR = path.resolve(
+  process.env.CONVERSATION_STORE_DIR ||
+    path.join(process.cwd(), ".data", "conversations"),
+);
+
+// Ids come from crypto.randomUUID() on the client
+export const isValidConversationId = (id: string) =>
+  /^[0-9a-f-]{36}$/.test(id);
+
+const ownerDir = (ownerId: string) =>
+  path.join(CONVERSATION_STORE_DIR, ownerId);
+
+const conversationPath = (ownerId: string, id: string) =>
+  path.join(ownerDir(ownerId), `${id}.json`);
+
+const isMissing = (error: unknown) =>
+  (error as NodeJS.ErrnoException).code === "ENOENT";
+
+export async function listConversations(
+  ownerId: string,
+): Promise<ConversationSummary[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(ownerDir(ownerId));
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+
+  const conversations = await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) =>
+        getConversation(ownerId, entry.replace(/\.json$/, "")),
+      ),
+  );
+
+  return conversations
+    .filter((c): c is Conversation => !!c)
+    .map(({ id, title, createdAt, updatedAt }) => ({
+      id,
+      title,
+      createdAt,
+      updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(
+  ownerId: string,
+  id: string,
+): Promise<Conversation | null> {
+  if (!isValidConversationId(id)) return null;
+
+  try {
+    return JSON.parse(
+      await fs.readFile(conversationPath(ownerId, id), "utf8"),
+    );
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+export async function saveConversation(
+  ownerId: string,
+  conversation: Conversation,
+): Promise<void> {
+  await fs.mkdir(ownerDir(ownerId), { recursive: true });
+  await fs.writeFile(
+    conversationPath(ownerId, conversation.id),
+    JSON.stringify(conversation),
+  );
+}
+
+export async function deleteConversation(
+  ownerId: string,
+  id: string,
+): Promise<void> {
+  try {
+    await fs.unlink(conversationPath(ownerId, id));
+  } catch (error) {
+    if (!isMissing(error)) throw error;
+  }
+}
@@ -0,0 +1,72 @@
+// lib/fileStore.ts
+// Uploads are kept on local disk; each file is a data blob plus a JSON sidecar
+import { promises as fs } from "fs";
+import path from "path";
+import type { FileUpload } from "@/utils/fileHandling";
+
+const FILE_STORE_DIR = path.resolve(
+  process.env.FILE_STORE_DIR || path.join(process.cwd(), ".data", "files"),
+);
+
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// The image types every provider accepts; SVG could also run script when served
+export const IMAGE_MEDIA_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+export interface StoredFile extends FileUpload {
+  data: Buffer;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(id: string) {
+    super(`File "${id}" not found`);
+    this.name = "FileNotFoundError";
+  }
+}
+
+// Ids are generated here, so anything else is rejected before touching the disk
+const isValidId = (id: string) => /^[0-9a-f-]{36}$/.test(id);
+
+const dataPath = (id: string) => path.join(FILE_STORE_DIR, `${id}.bin`);
+const metaPath = (id: string) => path.join(FILE_STORE_DIR, `${id}.json`);
+
+export async function saveFile(
+  file: Omit<FileUpload, "id" | "fileSize">,
+  data: Buffer,
+): Promise<FileUpload> {
+  const upload: FileUpload = {
+    ...file,
+    id: crypto.randomUUID(),
+    fileSize: data.length,
+  };
+
+  await fs.mkdir(FILE_STORE_DIR, { recursive: true });
+  await fs.writeFile(dataPath(upload.id), data);
+  await fs.writeFile(metaPath(upload.id), JSON.stringify(upload));
+
+  return upload;
+}
+
+export async function getFile(id: string): Promise<StoredFile> {
+  if (!isValidId(id)) {
+    throw new FileNotFoundError(id);
+  }
+
+  try {
+    const [meta, data] = await Promise.all([
+      fs.readFile(metaPath(id), "utf8"),
+      fs.readFile(dataPath(id)),
+    ]);
+    return { ...(JSON.parse(meta) as FileUpload), data };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new FileNotFoundError(id);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+// lib/models.ts
+// Safe to import from client components: no provider SDKs here
+export type Model = {
+  id: string;
+  name: string;
+};
+
+export const models: Model[] = [
+  { id: "claude-3-haiku-20240307", name: "Claude 3 Haiku" },
+  { id: "claude-3-5-sonnet-20240620", name: "Claude 3.5 Sonnet" },
+  { id: "gemini-1.5-flash", name: "Gemini 1.5 Flash" },
+  { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro" },
+  { id: "gpt-4o-mini", name: "GPT-4o mini" },
+  { id: "gpt-4o", name: "GPT-4o" },
+];
+
+export const DEFAULT_MODEL = "claude-3-5-sonnet-20240620";
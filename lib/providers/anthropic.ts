@@ -0,0 +1,77 @@
+// lib/providers/anthropic.ts
+import Anthropic from "@anthropic-ai/sdk";
+import type { GenerateRequest, LLMProvider } from "./types";
+
+// Initialize Anthropic client
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+type ImageMediaType = Anthropic.ImageBlockParam.Source["media_type"];
+
+const toMessageParams = ({
+  messages,
+}: GenerateRequest): Anthropic.MessageParam[] =>
+  messages.map((msg) => ({
+    role: msg.role,
+    content: msg.content.map(
+      (part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam =>
+        part.type === "text"
+          ? { type: "text", text: part.text }
+          : {
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: part.mediaType as ImageMediaType,
+                data: part.data,
+              },
+            },
+    ),
+  }));
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  supportsModel: (model) => model.startsWith("claude-"),
+
+  async *stream(request) {
+    const stream = anthropic.messages.stream(
+      {
+        model: request.model,
+        system: request.system,
+        messages: toMessageParams(request),
+        tools: request.tools?.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+        })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? 4096,
+      },
+      { signal: request.signal },
+    );
+
+    for await (const event of stream) {
+      if (
+        event.type === "content_block_delta" &&
+        event.delta.type === "text_delta"
+      ) {
+        yield { type: "text", text: event.delta.text };
+      }
+    }
+
+    // Tool inputs arrive as partial JSON, so read them from the final message
+    const message = await stream.finalMessage();
+    for (const block of message.content) {
+      if (block.type === "tool_use") {
+        yield {
+          type: "tool_call",
+          call: {
+            id: block.id,
+            name: block.name,
+            input: block.input as Record<string, any>,
+          },
+        };
+      }
+    }
+  },
+};
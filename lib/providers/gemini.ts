@@ -0,0 +1,131 @@
+// lib/providers/gemini.ts
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type Part,
+} from "@google/generative-ai";
+import type { GenerateRequest, LLMProvider, ToolDefinition } from "./types";
+
+// Initialize Google AI client
+const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
+
+// Gemini has no free-form objects: an OBJECT must list its properties
+const isFreeFormObject = (schema: any) =>
+  schema?.type === "object" && !schema.properties;
+
+// Gemini rejects JSON Schema keywords it doesn't know, such as
+// additionalProperties, so maps like chartConfig are sent as JSON strings
+const toGeminiSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  if (isFreeFormObject(schema)) {
+    return {
+      type: "string",
+      description: [schema.description, "A JSON object encoded as a string."]
+        .filter(Boolean)
+        .join(" "),
+    };
+  }
+
+  return Object.entries(schema).reduce(
+    (acc, [key, value]) =>
+      key === "additionalProperties"
+        ? acc
+        : { ...acc, [key]: toGeminiSchema(value) },
+    {},
+  );
+};
+
+// Parses the JSON strings that stand in for free-form objects
+const fromGeminiArgs = (schema: any, value: any): any => {
+  if (isFreeFormObject(schema) && typeof value === "string") {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (schema?.type === "array" && Array.isArray(value)) {
+    return value.map((item) => fromGeminiArgs(schema.items, item));
+  }
+  if (schema?.properties && value && typeof value === "object") {
+    return Object.entries(value).reduce(
+      (acc, [key, item]) => ({
+        ...acc,
+        [key]: fromGeminiArgs(schema.properties[key], item),
+      }),
+      {},
+    );
+  }
+  return value;
+};
+
+const toFunctionDeclarations = (
+  tools: ToolDefinition[],
+): FunctionDeclaration[] =>
+  tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters),
+  }));
+
+const toContents = ({ messages }: GenerateRequest): Content[] =>
+  messages.map((msg) => ({
+    role: msg.role === "user" ? "user" : "model",
+    parts: msg.content.map(
+      (part): Part =>
+        part.type === "text"
+          ? { text: part.text }
+          : { inlineData: { data: part.data, mimeType: part.mediaType } },
+    ),
+  }));
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  supportsModel: (model) => model.startsWith("gemini-"),
+
+  async *stream(request) {
+    const model = genAI.getGenerativeModel({
+      model: request.model,
+      systemInstruction: request.system,
+      tools: request.tools?.length
+        ? [{ functionDeclarations: toFunctionDeclarations(request.tools) }]
+        : undefined,
+    });
+
+    const contents = toContents(request);
+    const chat = model.startChat({
+      history: contents.slice(0, -1),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+
+    const result = await chat.sendMessageStream(
+      contents[contents.length - 1].parts,
+      { signal: request.signal },
+    );
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield { type: "text", text };
+      }
+
+      for (const call of chunk.functionCalls() ?? []) {
+        const tool = request.tools?.find((t) => t.name === call.name);
+        yield {
+          type: "tool_call",
+          call: {
+            name: call.name,
+            input: tool
+              ? fromGeminiArgs(tool.parameters, call.args)
+              : call.args,
+          },
+        };
+      }
+    }
+  },
+};
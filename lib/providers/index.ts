@@ -0,0 +1,33 @@
+// lib/providers/index.ts
+import { anthropicProvider } from "./anthropic";
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export type * from "./types";
+export {
+  getProviderErrorStatus,
+  ProviderError,
+  toChatMessages,
+} from "./shared";
+
+const providers: LLMProvider[] = [
+  anthropicProvider,
+  geminiProvider,
+  openaiProvider,
+];
+
+export class UnsupportedModelError extends Error {
+  constructor(model: string) {
+    super(`No provider available for model "${model}"`);
+    this.name = "UnsupportedModelError";
+  }
+}
+
+export const getProvider = (model: string): LLMProvider => {
+  const provider = providers.find((p) => p.supportsModel(model));
+  if (!provider) {
+    throw new UnsupportedModelError(model);
+  }
+  return provider;
+};
@@ -0,0 +1,108 @@
+// lib/providers/openai.ts
+import { ProviderError } from "./shared";
+import type { GenerateRequest, LLMProvider } from "./types";
+
+// Any OpenAI-compatible Chat Completions endpoint works here
+const OPENAI_BASE_URL =
+  process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.startsWith("data:")) {
+        yield line.slice(5).trim();
+      }
+    }
+  }
+}
+
+const toChatMessages = ({ system, messages }: GenerateRequest) => [
+  ...(system ? [{ role: "system", content: system }] : []),
+  ...messages.map((msg) => ({
+    role: msg.role,
+    content: msg.content.map((part) =>
+      part.type === "text"
+        ? { type: "text", text: part.text }
+        : {
+            type: "image_url",
+            image_url: { url: `data:${part.mediaType};base64,${part.data}` },
+          },
+    ),
+  })),
+];
+
+export const openaiProvider: LLMProvider = {
+  id: "openai",
+  supportsModel: (model) => /^(gpt-|o1-|o3-)/.test(model),
+
+  async *stream(request) {
+    const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toChatMessages(request),
+        tools: request.tools?.map((tool) => ({
+          type: "function",
+          function: tool,
+        })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new ProviderError(
+        `OpenAI API error ${response.status}: ${await response.text()}`,
+        response.status,
+      );
+    }
+
+    // Tool call arguments are streamed as string fragments keyed by index
+    const pendingCalls: Array<{ id?: string; name: string; args: string }> =
+      [];
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") break;
+
+      const delta = JSON.parse(data).choices?.[0]?.delta ?? {};
+      if (delta.content) {
+        yield { type: "text", text: delta.content };
+      }
+
+      for (const part of delta.tool_calls ?? []) {
+        const pending = (pendingCalls[part.index] ??= { name: "", args: "" });
+        pending.id = part.id ?? pending.id;
+        pending.name += part.function?.name ?? "";
+        pending.args += part.function?.arguments ?? "";
+      }
+    }
+
+    for (const pending of pendingCalls.filter(Boolean)) {
+      yield {
+        type: "tool_call",
+        call: {
+          id: pending.id,
+          name: pending.name,
+          input: JSON.parse(pending.args || "{}"),
+        },
+      };
+    }
+  },
+};
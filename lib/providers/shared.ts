@@ -0,0 +1,125 @@
+// lib/providers/shared.ts
+import { IMAGE_MEDIA_TYPES, type StoredFile } from "@/lib/fileStore";
+import type { ChatMessage, ContentPart } from "./types";
+
+export const withFileContents = (text: string, file: StoredFile): string =>
+  `File contents of ${file.fileName}:\n\n${file.data.toString("utf8")}\n\n${text}`;
+
+// Errors from providers called without an SDK carry the HTTP status too
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+// The Anthropic and Google SDK errors expose the HTTP status the same way
+export const getProviderErrorStatus = (error: unknown): number | undefined =>
+  typeof (error as { status?: unknown })?.status === "number"
+    ? (error as { status: number }).status
+    : undefined;
+
+// Providers reject messages without content, e.g. an answer stopped early
+const EMPTY_TURN_TEXT = "(no text)";
+
+// Accepts plain strings and Anthropic-style { type: "image", source } blocks
+const toContentParts = (content: unknown): ContentPart[] => {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  return content.flatMap((block): ContentPart[] => {
+    if (block?.type === "text" && typeof block.text === "string") {
+      return [{ type: "text", text: block.text }];
+    }
+    if (block?.type === "image" && block.source?.data) {
+      return [
+        {
+          type: "image",
+          mediaType: block.source.media_type,
+          data: block.source.data,
+        },
+      ];
+    }
+    return [];
+  });
+};
+
+// Lets the model refer back to charts it drew in earlier turns
+const withChartSummaries = (
+  content: ContentPart[],
+  charts: unknown,
+): ContentPart[] => {
+  const summaries = Array.isArray(charts)
+    ? charts.filter((chart): chart is string => typeof chart === "string")
+    : [];
+  if (summaries.length === 0) {
+    return content;
+  }
+
+  const text = `[Charts shown: ${summaries.join(" | ")}]`;
+  return [...content, { type: "text", text }];
+};
+
+// Converts the request history into provider-neutral messages,
+// inlining the stored file each message references
+export const toChatMessages = (
+  messages: Array<{
+    role: string;
+    content: unknown;
+    fileId?: string;
+    charts?: unknown;
+  }>,
+  files: Record<string, StoredFile>,
+): ChatMessage[] =>
+  messages
+    // The system prompt only comes from the server, never from the history
+    .filter((msg) => msg.role === "user" || msg.role === "assistant")
+    .map((msg) => {
+      let content = toContentParts(msg.content);
+      const file = msg.fileId ? files[msg.fileId] : undefined;
+
+      // Images stored before uploads were restricted would fail every turn
+      if (file && (file.isText || IMAGE_MEDIA_TYPES.includes(file.mediaType))) {
+        content = file.isText
+          ? [
+              {
+                type: "text",
+                text: withFileContents(
+                  content
+                    .map((part) => (part.type === "text" ? part.text : ""))
+                    .join(""),
+                  file,
+                ),
+              },
+              ...content.filter((part) => part.type === "image"),
+            ]
+          : [
+              {
+                type: "image",
+                mediaType: file.mediaType,
+                data: file.data.toString("base64"),
+              },
+              ...content,
+            ];
+      }
+
+      content = content.filter(
+        (part) => part.type !== "text" || part.text.trim(),
+      );
+      if (msg.role === "assistant") {
+        content = withChartSummaries(content, msg.charts);
+      }
+      return {
+        role: msg.role as ChatMessage["role"],
+        content: content.length
+          ? content
+          : [{ type: "text", text: EMPTY_TURN_TEXT }],
+      };
+    });
@@ -0,0 +1,43 @@
+// lib/providers/types.ts
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; mediaType: string; data: string };
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: ContentPart[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface GenerateRequest {
+  model: string;
+  system?: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  // Aborts the upstream request when the client goes away
+  signal?: AbortSignal;
+}
+
+// Incremental output of a provider, in the order the model produced it
+export type ProviderEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: ToolCall };
+
+export interface LLMProvider {
+  id: string;
+  supportsModel: (model: string) => boolean;
+  stream: (request: GenerateRequest) => AsyncGenerator<ProviderEvent>;
+}
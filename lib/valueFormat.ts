@@ -0,0 +1,18 @@
+// lib/valueFormat.ts
+import type { ValueFormat } from "@/types/chart";
+
+// Formats chart values; formats are validated by parseChartData beforehand
+export function formatValue(
+  value: number,
+  format: ValueFormat = {},
+  { compact = false }: { compact?: boolean } = {},
+): string {
+  const useCompact = format.compact ?? compact;
+  return new Intl.NumberFormat(format.locale, {
+    style: format.style === "number" ? "decimal" : format.style,
+    currency: format.style === "currency" ? format.currency : undefined,
+    notation: useCompact ? "compact" : "standard",
+    minimumFractionDigits: format.decimals,
+    maximumFractionDigits: format.decimals ?? (useCompact ? 1 : 2),
+  }).format(format.style === "percent" ? value / 100 : value);
+}
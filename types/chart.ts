@@ -4,22 +4,117 @@ export interface ChartConfig {
     label: string;
     stacked?: boolean;
     color?: string;
+    // Composed charts only: how and against which Y axis the series is drawn
+    type?: "bar" | "line" | "area";
+    axis?: "left" | "right";
   };
 }
 
+// Percent values are given as percentages, e.g. 12.5 for 12.5%
+export interface ValueFormat {
+  style?: "number" | "currency" | "percent";
+  // ISO 4217 code, e.g. "USD"
+  currency?: string;
+  // 1.2K, 3.4M, 5.6B
+  compact?: boolean;
+  decimals?: number;
+  // BCP 47 tag, e.g. "en-US"; defaults to the browser locale
+  locale?: string;
+}
+
+// Drawn on cartesian charts: "line" is a horizontal reference line at y,
+// "range" shades y1–y2 and/or x1–x2, and "label" marks a period at x or a
+// point at x and y
+export interface ChartAnnotation {
+  type: "line" | "range" | "label";
+  label?: string;
+  x?: string | number;
+  y?: number;
+  x1?: string | number;
+  x2?: string | number;
+  y1?: number;
+  y2?: number;
+  // Composed charts: which Y axis the values refer to
+  axis?: "left" | "right";
+}
+
+export interface AxisConfig {
+  label?: string;
+  // Appended to tick values, e.g. "%"
+  unit?: string;
+  // Overrides config.format for this axis
+  format?: ValueFormat;
+}
+
+// Treemap and sunburst data is a list of root nodes; parents are sized by
+// the sum of their children
+export interface HierarchyNode {
+  name: string;
+  value: number;
+  children?: HierarchyNode[];
+}
+
+export interface Trend {
+  percentage: number;
+  direction: "up" | "down";
+}
+
+// One card of a kpi chart; trend is derived from previousValue when omitted
+export interface KpiMetric {
+  label: string;
+  value: number;
+  unit?: string;
+  previousValue?: number;
+  comparisonLabel?: string;
+  trend?: Trend;
+  sparkline?: number[];
+}
+
 export interface ChartData {
-  chartType: "bar" | "multiBar" | "line" | "pie" | "area" | "stackedArea";
+  chartType:
+    | "bar"
+    | "multiBar"
+    | "line"
+    | "pie"
+    | "area"
+    | "stackedArea"
+    | "waterfall"
+    | "ohlc"
+    | "composed"
+    | "scatter"
+    | "bubble"
+    | "treemap"
+    | "sunburst"
+    | "funnel"
+    | "kpi"
+    | "heatmap";
   config: {
     title: string;
     description: string;
-    trend?: {
-      percentage: number;
-      direction: "up" | "down";
-    };
+    trend?: Trend;
     footer?: string;
     totalLabel?: string;
+    format?: ValueFormat;
+    annotations?: ChartAnnotation[];
     xAxisKey?: string;
+    // Scatter and bubble charts plot xAxisKey against yAxisKey
+    yAxisKey?: string;
+    sizeKey?: string;
+    categoryKey?: string;
+    trendLine?: boolean;
+    // Heatmaps colour valueKey for each rowKey × columnKey pair; diverging
+    // scales centre on zero for variances
+    rowKey?: string;
+    columnKey?: string;
+    valueKey?: string;
+    colorScale?: "sequential" | "diverging";
+    axes?: {
+      left?: AxisConfig;
+      right?: AxisConfig;
+    };
   };
+  // Waterfall rows flag their subtotal bars with isSubtotal: true;
+  // ohlc rows carry open, high, low, close and an optional volume
   data: Array<Record<string, any>>;
   chartConfig: ChartConfig;
 }
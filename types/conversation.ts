@@ -0,0 +1,40 @@
+// types/conversation.ts
+import type { ChartData } from "./chart";
+import type { FileUpload } from "@/utils/fileHandling";
+
+// Every saved version of an edited chart, oldest (the model's) first
+export interface ChartVersions {
+  versions: ChartData[];
+  active: number;
+}
+
+export interface Message {
+  id: string;
+  // Previous message in the thread; null for the first one
+  parentId?: string | null;
+  role: string;
+  content: string;
+  hasToolUse?: boolean;
+  file?: FileUpload;
+  charts?: ChartData[];
+  // Keyed by chart index; charts[index] always holds the active version
+  chartVersions?: Record<number, ChartVersions>;
+  // Model that produced an assistant message, reused by Retry
+  model?: string;
+  // Set when an assistant turn failed or was stopped before finishing
+  status?: "error" | "stopped";
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  model: string;
+  // Every message of every branch, see utils/messageTree.ts
+  messages: Message[];
+  branches?: Record<string, string>;
+}
@@ -0,0 +1,11 @@
+// types/stream.ts
+import type { ChartData } from "./chart";
+
+// Events of the /api/finance response, sent as newline-delimited JSON
+export type FinanceStreamEvent =
+  | { type: "text"; delta: string }
+  | { type: "tool_call"; name: string; input: Record<string, any> }
+  | { type: "chart"; chartData: ChartData }
+  | { type: "chart_error"; error: string; issues: string[] }
+  | { type: "error"; error: string }
+  | { type: "done" };
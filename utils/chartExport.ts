@@ -0,0 +1,318 @@
+// utils/chartExport.ts
+// Images are built from the rendered Recharts SVGs, or for HTML cards the
+// card itself, with computed styles inlined so theme colours survive outside
+// the page
+import type { ChartData, HierarchyNode } from "@/types/chart";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const PADDING = 24;
+const PNG_SCALE = 2;
+
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+];
+
+// These draw several series without an on-screen legend, so the export
+// adds one from chartConfig
+const SERIES_LEGEND_TYPES: ChartData["chartType"][] = [
+  "multiBar",
+  "line",
+  "area",
+  "stackedArea",
+];
+
+// These cards are laid out in HTML, so the whole card goes in a foreignObject
+const HTML_CARD_TYPES: ChartData["chartType"][] = ["funnel", "kpi", "heatmap"];
+
+const getFileName = (chart: ChartData, extension: string) => {
+  const slug = chart.config.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "chart"}.${extension}`;
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const inlineStyles = (
+  source: Element,
+  target: Element,
+  properties: string[] = INLINED_STYLES,
+) => {
+  const computed = getComputedStyle(source);
+  for (const property of properties) {
+    (target as SVGElement).style.setProperty(
+      property,
+      computed.getPropertyValue(property),
+    );
+  }
+  target.removeAttribute("class");
+  Array.from(source.children).forEach((child, index) =>
+    inlineStyles(child, target.children[index], properties),
+  );
+};
+
+const createText = (
+  text: string,
+  x: number,
+  y: number,
+  style: { fill: string; fontSize: number; fontWeight?: number; font: string },
+) => {
+  const element = document.createElementNS(SVG_NS, "text");
+  element.textContent = text;
+  element.setAttribute("x", String(x));
+  element.setAttribute("y", String(y));
+  element.setAttribute("fill", style.fill);
+  element.setAttribute("font-size", String(style.fontSize));
+  element.setAttribute("font-family", style.font);
+  if (style.fontWeight) {
+    element.setAttribute("font-weight", String(style.fontWeight));
+  }
+  return element;
+};
+
+const serializeSvg = (svg: SVGSVGElement, width: number, height: number) => {
+  svg.setAttribute("xmlns", SVG_NS);
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  return { markup: new XMLSerializer().serializeToString(svg), width, height };
+};
+
+// Embeds a copy of the card with every computed style inlined
+const buildCardSvg = (container: HTMLElement) => {
+  const card = container.firstElementChild;
+  if (!card) {
+    throw new Error("This chart has no image to export");
+  }
+
+  const { width, height } = card.getBoundingClientRect();
+  const clone = card.cloneNode(true) as HTMLElement;
+  inlineStyles(card, clone, Array.from(getComputedStyle(card)));
+  clone.style.setProperty("margin", "0");
+
+  const foreignObject = document.createElementNS(SVG_NS, "foreignObject");
+  foreignObject.setAttribute("width", String(width));
+  foreignObject.setAttribute("height", String(height));
+  foreignObject.appendChild(clone);
+
+  const svg = document.createElementNS(SVG_NS, "svg");
+  svg.appendChild(foreignObject);
+  return serializeSvg(svg, width, height);
+};
+
+interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// Recharts renders legends as HTML outside the surface, so the entries are
+// read back from the page to match what is on screen
+const getLegendEntries = (
+  container: HTMLElement,
+  chart: ChartData,
+): LegendEntry[] => {
+  const items = Array.from(
+    container.querySelectorAll(".recharts-legend-wrapper > div > div"),
+  );
+  if (items.length > 0) {
+    return items.map((item) => ({
+      label: item.textContent?.trim() ?? "",
+      color: item.firstElementChild
+        ? getComputedStyle(item.firstElementChild).backgroundColor
+        : "",
+    }));
+  }
+
+  const chartElement = container.querySelector("[data-chart]");
+  if (!chartElement || !SERIES_LEGEND_TYPES.includes(chart.chartType)) {
+    return [];
+  }
+  const colors = getComputedStyle(chartElement);
+  return Object.entries(chart.chartConfig).map(([key, { label }]) => ({
+    label,
+    color: colors.getPropertyValue(`--color-${key}`).trim(),
+  }));
+};
+
+// Stacks the title, every chart surface in the card and a legend into one SVG
+const buildSurfaceSvg = (container: HTMLElement, chart: ChartData) => {
+  const surfaces = Array.from(
+    container.querySelectorAll<SVGSVGElement>("svg.recharts-surface"),
+  );
+  if (surfaces.length === 0) {
+    throw new Error("This chart has no image to export");
+  }
+
+  const card = getComputedStyle(container.firstElementChild ?? container);
+  const text = { fill: card.color, font: card.fontFamily };
+  const surfaceWidths = surfaces.map(
+    (surface) => surface.getBoundingClientRect().width,
+  );
+  const width = Math.max(...surfaceWidths) + PADDING * 2;
+
+  const svg = document.createElementNS(SVG_NS, "svg");
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", card.backgroundColor);
+  svg.appendChild(background);
+
+  let y = PADDING + 18;
+  svg.appendChild(
+    createText(chart.config.title, PADDING, y, {
+      ...text,
+      fontSize: 18,
+      fontWeight: 600,
+    }),
+  );
+  if (chart.config.description) {
+    y += 22;
+    const description = createText(chart.config.description, PADDING, y, {
+      ...text,
+      fontSize: 13,
+    });
+    description.setAttribute("fill-opacity", "0.7");
+    svg.appendChild(description);
+  }
+  y += 16;
+
+  for (const surface of surfaces) {
+    const { width: surfaceWidth, height } = surface.getBoundingClientRect();
+    const clone = surface.cloneNode(true) as SVGSVGElement;
+    inlineStyles(surface, clone);
+    clone.setAttribute("x", String(PADDING));
+    clone.setAttribute("y", String(y));
+    clone.setAttribute("width", String(surfaceWidth));
+    clone.setAttribute("height", String(height));
+    svg.appendChild(clone);
+    y += height + 8;
+  }
+
+  const legend = getLegendEntries(container, chart);
+  if (legend.length > 0) {
+    let x = PADDING;
+    y += 8;
+    for (const { label, color } of legend) {
+      const swatch = document.createElementNS(SVG_NS, "rect");
+      swatch.setAttribute("x", String(x));
+      swatch.setAttribute("y", String(y - 9));
+      swatch.setAttribute("width", "10");
+      swatch.setAttribute("height", "10");
+      swatch.setAttribute("rx", "2");
+      swatch.setAttribute("fill", color || card.color);
+      svg.appendChild(swatch);
+      svg.appendChild(createText(label, x + 16, y, { ...text, fontSize: 12 }));
+      x += 16 + label.length * 7 + 16;
+    }
+    y += 8;
+  }
+
+  return serializeSvg(svg, width, y + PADDING);
+};
+
+const buildChartSvg = (container: HTMLElement, chart: ChartData) =>
+  HTML_CARD_TYPES.includes(chart.chartType)
+    ? buildCardSvg(container)
+    : buildSurfaceSvg(container, chart);
+
+export function exportChartAsSvg(container: HTMLElement, chart: ChartData) {
+  const { markup } = buildChartSvg(container, chart);
+  download(
+    new Blob([markup], { type: "image/svg+xml" }),
+    getFileName(chart, "svg"),
+  );
+}
+
+export async function exportChartAsPng(
+  container: HTMLElement,
+  chart: ChartData,
+) {
+  const { markup, width, height } = buildChartSvg(container, chart);
+
+  // A data URL rather than a blob URL keeps the canvas untainted when the
+  // SVG holds a foreignObject
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("Failed to render chart image"));
+    image.src = `data:image/svg+xml,${encodeURIComponent(markup)}`;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width * PNG_SCALE;
+  canvas.height = height * PNG_SCALE;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+  context.scale(PNG_SCALE, PNG_SCALE);
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  );
+  if (!blob) throw new Error("Failed to encode chart image");
+  download(blob, getFileName(chart, "png"));
+}
+
+// Tree charts export one row per leaf with its full path
+export const flattenHierarchy = (
+  nodes: HierarchyNode[],
+  path: string[] = [],
+): Record<string, any>[] =>
+  nodes.flatMap((node) =>
+    node.children?.length
+      ? flattenHierarchy(node.children, [...path, node.name])
+      : [{ path: [...path, node.name].join(" / "), value: node.value }],
+  );
+
+const toCsvCell = (value: unknown) => {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : Array.isArray(value)
+        ? value.join("; ")
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function exportChartAsCsv(chart: ChartData) {
+  const rows =
+    chart.chartType === "treemap" || chart.chartType === "sunburst"
+      ? flattenHierarchy(chart.data as HierarchyNode[])
+      : chart.data;
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const csv = [
+    columns.map(toCsvCell).join(","),
+    ...rows.map((row) => columns.map((key) => toCsvCell(row[key])).join(",")),
+  ].join("\n");
+
+  download(new Blob([csv], { type: "text/csv" }), getFileName(chart, "csv"));
+}
+
+export function exportChartAsJson(chart: ChartData) {
+  download(
+    new Blob([JSON.stringify(chart, null, 2)], { type: "application/json" }),
+    getFileName(chart, "json"),
+  );
+}
@@ -0,0 +1,46 @@
+// utils/chartVersions.ts
+// Edits never overwrite a chart: each save adds a version to the message and
+// makes it the one on display
+import type { ChartData } from "@/types/chart";
+import type { Message } from "@/types/conversation";
+
+export const getChartVersions = (message: Message, index: number) =>
+  message.chartVersions?.[index] ?? {
+    versions: message.charts?.[index] ? [message.charts[index]] : [],
+    active: 0,
+  };
+
+const withActiveChart = (
+  message: Message,
+  index: number,
+  versions: ChartData[],
+  active: number,
+): Message => ({
+  ...message,
+  charts: (message.charts ?? []).map((chart, i) =>
+    i === index ? versions[active] : chart,
+  ),
+  chartVersions: {
+    ...message.chartVersions,
+    [index]: { versions, active },
+  },
+});
+
+export const addChartVersion = (
+  message: Message,
+  index: number,
+  chart: ChartData,
+): Message => {
+  const { versions } = getChartVersions(message, index);
+  return withActiveChart(message, index, [...versions, chart], versions.length);
+};
+
+export const selectChartVersion = (
+  message: Message,
+  index: number,
+  active: number,
+): Message => {
+  const { versions } = getChartVersions(message, index);
+  if (active < 0 || active >= versions.length) return message;
+  return withActiveChart(message, index, versions, active);
+};
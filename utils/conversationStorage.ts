@@ -0,0 +1,134 @@
+// utils/conversationStorage.ts
+// Conversations live in IndexedDB; with NEXT_PUBLIC_CONVERSATION_SYNC=true
+// they are also mirrored to /api/conversations
+import type {
+  Conversation,
+  ConversationSummary,
+  Message,
+} from "@/types/conversation";
+
+const DB_NAME = "d365-chat";
+const STORE_NAME = "conversations";
+const SYNC_ENABLED = process.env.NEXT_PUBLIC_CONVERSATION_SYNC === "true";
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+      const request = run(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const toSummary = ({
+  id,
+  title,
+  createdAt,
+  updatedAt,
+}: ConversationSummary): ConversationSummary => ({
+  id,
+  title,
+  createdAt,
+  updatedAt,
+});
+
+// Server sync is best effort: the local copy is the source of truth
+const syncToServer = (path: string, init: RequestInit) => {
+  if (!SYNC_ENABLED) return;
+  fetch(`/api/conversations${path}`, init).catch((error) =>
+    console.error("Conversation sync failed:", error),
+  );
+};
+
+export const getConversationTitle = (messages: Message[]): string => {
+  const first = messages.find((m) => m.role === "user");
+  const text = first?.content.trim() || first?.file?.fileName || "New chat";
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  const local = await withStore<Conversation[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  const summaries = new Map(local.map((c) => [c.id, toSummary(c)]));
+
+  if (SYNC_ENABLED) {
+    try {
+      const response = await fetch("/api/conversations");
+      if (response.ok) {
+        const remote: ConversationSummary[] = await response.json();
+        for (const summary of remote) {
+          const known = summaries.get(summary.id);
+          if (!known || known.updatedAt < summary.updatedAt) {
+            summaries.set(summary.id, summary);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Failed to list server conversations:", error);
+    }
+  }
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.updatedAt - a.updatedAt,
+  );
+};
+
+export const getConversation = async (
+  id: string,
+): Promise<Conversation | undefined> => {
+  const local = await withStore<Conversation | undefined>("readonly", (store) =>
+    store.get(id),
+  );
+
+  if (SYNC_ENABLED) {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (response.ok) {
+        const remote: Conversation = await response.json();
+        if (!local || local.updatedAt < remote.updatedAt) {
+          await withStore("readwrite", (store) => store.put(remote));
+          return remote;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load server conversation:", error);
+    }
+  }
+
+  return local;
+};
+
+export const saveConversation = async (
+  conversation: Conversation,
+): Promise<void> => {
+  await withStore("readwrite", (store) => store.put(conversation));
+  syncToServer(`/${conversation.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(conversation),
+  });
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+  syncToServer(`/${id}`, { method: "DELETE" });
+};
@@ -19,22 +19,6 @@ export const readFileAsText = (file: File): Promise<string> => {
   });
 };
 
-export const readFileAsBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const base64 = (reader.result as string).split(",")[1];
-        resolve(base64);
-      } catch (e) {
-        reject(e);
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
 export const readFileAsPDFText = async (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const script = document.createElement("script");
@@ -90,11 +74,32 @@ export const readFileAsPDFText = async (file: File): Promise<string> => {
   });
 };
 
-// Update the type definition
+// Uploaded once through /api/files, then referenced by id
 export interface FileUpload {
-  base64: string;
+  id: string;
   fileName: string;
   mediaType: string;
   isText?: boolean;
   fileSize?: number; // Optional: Add file size information
 }
+
+export const uploadFile = async (
+  content: Blob,
+  fileName: string,
+  isText: boolean,
+): Promise<FileUpload> => {
+  const form = new FormData();
+  form.append("file", content);
+  form.append("fileName", fileName);
+  form.append("isText", String(isText));
+
+  const response = await fetch("/api/files", { method: "POST", body: form });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({}));
+    throw new Error(error || `Upload failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const getFileUrl = (file: FileUpload): string => `/api/files/${file.id}`;
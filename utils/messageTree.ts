@@ -0,0 +1,46 @@
+// utils/messageTree.ts
+// Messages form a tree: editing a user message adds a sibling branch.
+// `branches` maps a parent id (or ROOT_KEY) to the selected child id.
+import type { Message } from "@/types/conversation";
+
+export const ROOT_KEY = "root";
+
+export type BranchSelection = Record<string, string>;
+
+export const parentKey = (message: Pick<Message, "parentId">): string =>
+  message.parentId ?? ROOT_KEY;
+
+export const getChildren = (messages: Message[], key: string): Message[] =>
+  messages.filter((m) => parentKey(m) === key);
+
+export const getSiblings = (messages: Message[], message: Message) =>
+  getChildren(messages, parentKey(message));
+
+// Follows the selected (or newest) child from the root to a leaf
+export const getActivePath = (
+  messages: Message[],
+  branches: BranchSelection,
+): Message[] => {
+  const path: Message[] = [];
+  let key = ROOT_KEY;
+
+  while (true) {
+    const children = getChildren(messages, key);
+    if (children.length === 0) return path;
+
+    const next =
+      children.find((m) => m.id === branches[key]) ??
+      children[children.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+};
+
+// Conversations saved before branching existed are plain lists
+export const linkLinearMessages = (messages: Message[]): Message[] =>
+  messages.some((m) => m.parentId !== undefined)
+    ? messages
+    : messages.map((m, index) => ({
+        ...m,
+        parentId: index === 0 ? null : messages[index - 1].id,
+      }));
@@ -0,0 +1,35 @@
+// utils/streamHandling.ts
+import type { FinanceStreamEvent } from "@/types/stream";
+
+// Reads a newline-delimited JSON response and hands each event to the caller
+export const readFinanceStream = async (
+  response: Response,
+  onEvent: (event: FinanceStreamEvent) => void,
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error("Response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as FinanceStreamEvent);
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as FinanceStreamEvent);
+  }
+};